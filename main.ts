@@ -1,66 +1,181 @@
-import { App, MarkdownView, Plugin, PluginSettingTab, Setting } from 'obsidian';
+import { App, CachedMetadata, HeadingCache, MarkdownView, Menu, Notice, ObsidianProtocolData, OpenViewState, Plugin, PluginSettingTab, Setting, TFile, WorkspaceLeaf, debounce, editorViewField, resolveSubpath } from 'obsidian';
+import { around } from 'monkey-around';
 import { EditorView } from '@codemirror/view';
-import { Extension } from '@codemirror/state';
-import { FocusManager } from 'utils/focusManager';
-import { getFocusInfo, isIntermediateFocusInfo, isListFocusInfo, toIntermediateFocusInfo } from 'utils/info';
+import { EditorState, Extension } from '@codemirror/state';
+import { FocusEffect, FocusManager } from 'utils/focusManager';
+import { getChildListFocusInfo, getFocusInfo, getHeaderFocusInfoByName, getParentListFocusInfo, isIntermediateFocusInfo, isListFocusInfo, toIntermediateFocusInfo } from 'utils/info';
 import { FocusPluginLogger } from 'utils/log';
+import { Pane, PaneRegistry } from 'utils/paneRegistry';
+import { toEditModeFocusInfo, toReadingFocusInfo } from 'utils/focusConversion';
+import { SavedFocus, fromSavedFocus, toSavedFocus } from 'utils/savedFocus';
+import { FocusHistory } from 'utils/focusHistory';
+import { HeadingSuggestModal } from 'utils/headingSuggestModal';
+import { FocusOverrides, FocusRule, OVERRIDE_VALUES, resolveOverrides } from 'utils/focusRules';
+import { TouchGestures } from 'utils/touchGestures';
+import { getSectionStats } from 'utils/sectionStats';
+import { getAvailablePath, getFocusedRange, getRemovedRange, getSectionEndLine, renderSectionHtml, toFileName, toHtmlDocument } from 'utils/sectionActions';
+import { FOCUS_CHANGED_EVENT, FocusChangedEvent, FocusPluginApi, FocusRange } from 'utils/api';
+import { NavigationDirection, findHeading, findHeadingIndexAtLine, getBlockLine, getHeadingPath, getHeadingOccurrence, getNavigationTarget } from 'utils/navigation';
 import { 
 	EditModeFocusManager, 
 	focusStateField, 
-	focusDecorationsField
+	focusDecorationsPlugin,
+	focusFoldDecorations,
+	focusResolver,
+	cursorFollower,
+	focusChangeListener,
+	focusEditListener,
+	EditModeFocusInfo,
+	EditModeFocusGranularity,
+	EditModeFocusOptions
 } from 'utils/editModeFocusManager';
+// The focus of the active pane, with the note and text it covers
+interface FocusedSection {
+	pane: Pane;
+	editorView: EditorView;
+	file: TFile;
+	focusInfo: EditModeFocusInfo;
+	markdown: string;
+	title: string;
+}
+
 interface FocusPluginSettings {
 	clearMethod: 'click-again' | 'click-outside';
 	contentBehavior: 'element' | 'content' | 'none';
 	focusScope: 'block' | 'content';
+	focusGranularity: EditModeFocusGranularity;
+	focusEffect: FocusEffect;
+	spotlight: boolean;
 	enableList: boolean;
 	focusSensitivity: number;
+	focusTrigger: 'click' | 'modifier-click' | 'double-click' | 'command';
+	followCursor: boolean;
 	indicator: boolean;
+	indicatorDetails: boolean;
 	isEnabled: boolean;
+	syncPanes: boolean;
+	restoreFocus: boolean;
+	focusLinkTarget: boolean;
+	savedFocus: Record<string, SavedFocus>;
+	rules: FocusRule[];
 }
 
 const DEFAULT_SETTINGS: FocusPluginSettings = {
 	clearMethod: 'click-again',
 	contentBehavior: 'none',
 	focusScope: 'content',
+	focusGranularity: 'section',
+	focusEffect: 'dim',
+	spotlight: false,
 	enableList: false,
 	focusSensitivity: 1600,
+	focusTrigger: 'click',
+	followCursor: false,
 	indicator: true,
+	indicatorDetails: false,
 	isEnabled: true,
-}
-
-interface PaneState {
-	mode: string;
-	head: Element;
+	syncPanes: false,
+	restoreFocus: true,
+	focusLinkTarget: false,
+	savedFocus: {},
+	rules: [],
 }
 
 export default class FocusPlugin extends Plugin {
 	settings: FocusPluginSettings;
 	focusManager: FocusManager = new FocusManager();
 	editModeFocusManager: EditModeFocusManager = new EditModeFocusManager();
+	panes: PaneRegistry = new PaneRegistry(this.app.workspace);
 	lastClick = 0;
+	lastClickPosition = { x: 0, y: 0 };
+	touchGestures: TouchGestures = new TouchGestures({
+		onLongPress: (evt) => {
+			if (this.settings.focusTrigger !== 'command')
+				this.handleFocusClick(evt, true);
+		},
+		onTwoFingerTap: () => {
+			const pane = this.getPaneState();
+			if (pane && this.prepareNote(pane.view.file))
+				this.clearPane(pane);
+		},
+		onSwipe: (direction) => this.navigateFocus(direction === 'left' ? 'next-sibling' : 'previous-sibling')
+	});
 	indicator: HTMLElement | null = null;
 	indicatorEl: HTMLElement = document.createElement("div");
 	private editorExtensions: Extension[] = [];
+	private propagatingFocus = false;
+	private skipHistory = false;
+	private histories: WeakMap<WorkspaceLeaf, FocusHistory> = new WeakMap();
+	// Removes the listeners of each document, the main one and those of popout windows
+	private documentListeners: Map<Document, () => void> = new Map();
+	private saveFocusState = debounce(() => this.saveData(this.settings), 1000, true);
+	// Typing resizes the focus on every key, count its words once typing pauses
+	private refreshIndicator = debounce(() => this.updateIndicator(), 300, true);
 
-	private getPaneState(): PaneState | null {
-		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!view)
-			return null;
+	api: FocusPluginApi = {
+		focusHeading: (file, headingPath) => this.focusHeading(file, typeof headingPath === 'string' ? [headingPath] : headingPath),
+		focusLines: (view, fromLine, toLine) => this.focusLines(view, fromLine, toLine),
+		clear: (view) => {
+			const pane = view ? this.panes.get(view) : this.getPaneState();
+			if (pane)
+				this.clearPane(pane);
+		},
+		getFocus: (view) => this.getFocusRange(this.panes.get(view)),
+		isEnabled: () => this.settings.isEnabled
+	};
 
-		return {
-			mode: view.getMode(),
-			head: view.contentEl.querySelector('.markdown-preview-section') as Element
-		}
+	private getPaneState(): Pane | null {
+		return this.panes.getActive();
 	}
 
 	private getEditorView(): EditorView | null {
-		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!view) return null;
-		
-		// @ts-ignore - accessing internal CM6 editor
-		const editor = view.editor?.cm as EditorView;
-		return editor || null;
+		return this.panes.getActive()?.editorView ?? null;
+	}
+
+	private getEditorFile(state: EditorState): TFile | null {
+		return state.field(editorViewField, false)?.file ?? null;
+	}
+
+	private getEditorMetadata(state: EditorState): CachedMetadata | null {
+		const file = this.getEditorFile(state);
+		return file ? this.app.metadataCache.getFileCache(file) : null;
+	}
+
+	/**
+	 * Get the settings in effect for a note, with the matching rules and its frontmatter applied
+	 */
+	private getNoteSettings(file: TFile | null): FocusPluginSettings {
+		if (!file)
+			return this.settings;
+		const overrides = resolveOverrides(this.settings.rules, file, this.app.metadataCache.getFileCache(file));
+		return Object.assign({}, this.settings, overrides);
+	}
+
+	private getFocusOptions(settings: FocusPluginSettings): EditModeFocusOptions {
+		return {
+			includeBody: settings.focusScope === 'content',
+			granularity: settings.focusGranularity,
+			enableList: settings.enableList,
+			contentBehavior: settings.contentBehavior
+		};
+	}
+
+	private applyNoteSettings(settings: FocusPluginSettings) {
+		this.focusManager.includeBody = settings.focusScope === 'content';
+		this.editModeFocusManager.setOptions(this.getFocusOptions(settings));
+	}
+
+	/**
+	 * Apply the settings of a note before focusing in it, returning null when focus is off for the note
+	 */
+	private prepareNote(file: TFile | null): FocusPluginSettings | null {
+		if (!this.settings.isEnabled)
+			return null;
+		const settings = this.getNoteSettings(file);
+		if (!settings.isEnabled)
+			return null;
+		this.applyNoteSettings(settings);
+		return settings;
 	}
 
 	async onload() {
@@ -68,19 +183,57 @@ export default class FocusPlugin extends Plugin {
 		await this.loadSettings();
 
 		// Register CodeMirror 6 extensions for edit mode
-		this.editorExtensions = [focusStateField, focusDecorationsField];
+		this.editorExtensions = [
+			focusStateField,
+			focusDecorationsPlugin,
+			focusResolver.of((state, focusInfo) => {
+				// Recompute with the settings of the note being edited, not the last one clicked
+				const file = this.getEditorFile(state);
+				this.editModeFocusManager.setMetadata(this.getEditorMetadata(state));
+				return this.editModeFocusManager.refreshFocusInfo(focusInfo, state.doc, this.getFocusOptions(this.getNoteSettings(file)));
+			}),
+			cursorFollower((editorView, pos) => this.handleCursorMove(editorView, pos)),
+			focusChangeListener((editorView, focusInfo) => {
+				const pane = this.panes.find(editorView);
+				if (pane)
+					this.handleFocusChange(pane, focusInfo);
+			}),
+			focusEditListener(editorView => {
+				if (this.settings.indicatorDetails && editorView === this.getEditorView())
+					this.refreshIndicator();
+			})
+		];
+		if (this.settings.focusEffect === 'hide')
+			this.editorExtensions.push(focusFoldDecorations);
 		this.registerEditorExtension(this.editorExtensions);
 
+		this.focusManager.onChange((head, info) => {
+			const pane = this.panes.find(head);
+			if (!pane || !pane.view.file)
+				return;
+
+			const metadata = this.app.metadataCache.getFileCache(pane.view.file);
+			if (!info)
+				this.handleFocusChange(pane, null);
+			else if (metadata)
+				this.handleFocusChange(pane, toEditModeFocusInfo(pane, info, metadata, this.editModeFocusManager));
+		});
+
 		this.addCommand({
 			id: 'clear-focus',
 			name: 'Clear Focus',
 			callback: () => {
-				this.focusManager.clearAll();
-				// Also clear edit mode focus
-				const editorView = this.getEditorView();
-				if (editorView) {
-					this.editModeFocusManager.clearFocus(editorView);
-				}
+				const pane = this.getPaneState();
+				if (pane)
+					this.clearPane(pane);
+			}
+		});
+
+		this.addCommand({
+			id: 'clear-focus-all-panes',
+			name: 'Clear Focus in All Panes',
+			callback: () => {
+				this.clearAllPanes();
 			}
 		});
 
@@ -92,34 +245,191 @@ export default class FocusPlugin extends Plugin {
 			}
 		});
 
+		const navigationCommands: { id: string, name: string, direction: NavigationDirection }[] = [
+			{ id: 'focus-next-heading', name: 'Focus Next Heading', direction: 'next' },
+			{ id: 'focus-previous-heading', name: 'Focus Previous Heading', direction: 'previous' },
+			{ id: 'focus-parent-section', name: 'Focus Parent Section', direction: 'parent' },
+			{ id: 'focus-first-child-section', name: 'Focus First Child Section', direction: 'child' },
+			{ id: 'focus-next-sibling-section', name: 'Focus Next Sibling Section', direction: 'next-sibling' },
+			{ id: 'focus-previous-sibling-section', name: 'Focus Previous Sibling Section', direction: 'previous-sibling' },
+		];
+		navigationCommands.forEach(command => {
+			this.addCommand({
+				id: command.id,
+				name: command.name,
+				callback: () => {
+					this.navigateFocus(command.direction);
+				}
+			});
+		});
+
+		this.addCommand({
+			id: 'focus-current-section',
+			name: 'Focus Current Section',
+			callback: () => {
+				this.focusCurrentSection();
+			}
+		});
+
+		this.addCommand({
+			id: 'focus-heading',
+			name: 'Focus Heading...',
+			callback: () => {
+				this.pickHeading();
+			}
+		});
+
+		this.addCommand({
+			id: 'focus-parent-list-item',
+			name: 'Focus Parent List Item',
+			callback: () => {
+				this.navigateListFocus('parent');
+			}
+		});
+
+		this.addCommand({
+			id: 'focus-child-list-item',
+			name: 'Focus Child List Item',
+			callback: () => {
+				this.navigateListFocus('child');
+			}
+		});
+
+		this.addCommand({
+			id: 'focus-back',
+			name: 'Focus Back',
+			callback: () => {
+				this.navigateHistory('back');
+			}
+		});
+
+		this.addCommand({
+			id: 'focus-forward',
+			name: 'Focus Forward',
+			callback: () => {
+				this.navigateHistory('forward');
+			}
+		});
+
+		this.addCommand({
+			id: 'forget-saved-focus',
+			name: 'Forget Saved Focus for Current Note',
+			callback: () => {
+				const file = this.app.workspace.getActiveFile();
+				if (file)
+					this.rememberFocus(file.path, null);
+			}
+		});
+
+		const sectionCommands: { id: string, name: string, action: (section: FocusedSection) => void }[] = [
+			{ id: 'copy-focused-section-markdown', name: 'Copy Focused Section as Markdown', action: section => this.copySection(section, false) },
+			{ id: 'copy-focused-section-html', name: 'Copy Focused Section as HTML', action: section => this.copySection(section, true) },
+			{ id: 'extract-focused-section', name: 'Extract Focused Section to New Note', action: section => this.extractSection(section) },
+			{ id: 'move-focused-section', name: 'Move Focused Section Under Heading...', action: section => this.moveSection(section) },
+			{ id: 'export-focused-section-html', name: 'Export Focused Section to HTML', action: section => this.exportSection(section, 'html') },
+			{ id: 'export-focused-section-pdf', name: 'Export Focused Section to PDF', action: section => this.exportSection(section, 'pdf') },
+		];
+		sectionCommands.forEach(command => {
+			this.addCommand({
+				id: command.id,
+				name: command.name,
+				callback: () => {
+					const section = this.getFocusedSection();
+					if (section)
+						command.action(section);
+					else
+						new Notice('Focus: nothing is focused');
+				}
+			});
+		});
+
 		this.addSettingTab(new FocusPluginSettingTab(this.app, this));
 
-		this.registerEvent(this.app.workspace.on('layout-change', () => {
-			const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-			if (!view) return;
+		// obsidian://focus?vault=..&file=..&heading=.. (or &block=^id / &line=)
+		this.registerObsidianProtocolHandler('focus', (params) => this.handleFocusUri(params));
 
-			const mode = view.getMode();
-			
-			if (mode === 'preview') {
-				const paneState = this.getPaneState();
-				if (paneState) {
-					this.focusManager.clear(paneState.head);
+		// Wrap opening files to focus the heading or block a link, search result or backlink points to.
+		// The wrapper unwraps itself without dropping the patches other plugins applied on top of it.
+		const onOpenSubpath = (leaf: WorkspaceLeaf, file: TFile, subpath: string) => this.focusLinkTarget(leaf, file, subpath);
+		this.register(around(WorkspaceLeaf.prototype, {
+			openFile: (openFile) => async function (this: WorkspaceLeaf, file: TFile, openState?: OpenViewState) {
+				await openFile.call(this, file, openState);
+				const subpath = openState?.eState?.subpath;
+				if (typeof subpath === 'string' && subpath)
+					onOpenSubpath(this, file, subpath);
+			}
+		}));
+
+		this.registerEvent(this.app.workspace.on('file-open', (file) => {
+			if (file)
+				this.restoreFocus(file);
+		}));
+
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			const savedFocus = this.settings.savedFocus[oldPath];
+			if (savedFocus) {
+				this.rememberFocus(oldPath, null);
+				this.rememberFocus(file.path, savedFocus);
+			}
+		}));
+
+		this.registerEvent(this.app.vault.on('delete', (file) => {
+			if (this.settings.savedFocus[file.path])
+				this.rememberFocus(file.path, null);
+		}));
+
+		// Focus cleared here only belongs to the mode being left, other panes keep theirs
+		this.registerEvent(this.app.workspace.on('layout-change', () => this.withoutPropagation(() => {
+			this.panes.getAll().forEach(pane => {
+				// Keep the focused section when switching between reading and edit mode
+				const previousMode = this.panes.updateMode(pane);
+				if (previousMode !== undefined && previousMode !== pane.mode)
+					this.convertFocus(pane);
+
+				if (pane.mode === 'preview') {
+					// Clear edit mode focus when switching to preview
+					if (pane.editorView && pane.editorView.state.field(focusStateField, false)) {
+						this.editModeFocusManager.clearFocus(pane.editorView);
+					}
+				} else if (pane.mode === 'source') {
+					// Clear preview mode focus when switching to edit
+					if (this.focusManager.getFocus(pane.head)) {
+						this.focusManager.clear(pane.head);
+					}
+				}
+			});
+		})));
+
+		// Record the modes of the panes open on load, so that their first mode switch is converted too
+		this.app.workspace.onLayoutReady(() => {
+			this.panes.getAll().forEach(pane => this.panes.updateMode(pane));
+		});
+
+		// Section boundaries may have moved, recompute the focus of every editor showing the file
+		this.registerEvent(this.app.metadataCache.on('changed', (file, data, cache) => {
+			// The frontmatter or tags of the note may have changed its settings. The note may be in
+			// the background, its settings are only used to recompute its own editors.
+			const enabled = this.settings.isEnabled && this.getNoteSettings(file).isEnabled;
+			this.panes.getAllForFile(file).forEach(pane => {
+				if (!enabled) {
+					this.withoutPropagation(() => this.clearPane(pane));
 				}
-				// Clear edit mode focus when switching to preview
-				const editorView = this.getEditorView();
-				if (editorView) {
-					this.editModeFocusManager.clearFocus(editorView);
+				else if (pane.mode === 'source' && pane.editorView) {
+					this.editModeFocusManager.setMetadata(cache);
+					this.editModeFocusManager.refreshFocus(pane.editorView);
 				}
-			} else if (mode === 'source') {
-				// Clear preview mode focus when switching to edit
-				this.focusManager.clearAll();
-			}
+			});
+			this.applyNoteSettings(this.getNoteSettings(this.app.workspace.getActiveFile()));
+			this.updateIndicator();
 		}));
 
 		this.registerEvent(this.app.workspace.on('active-leaf-change', () => {
 			const view = this.app.workspace.getActiveViewOfType(MarkdownView);
 			if (!view) return;
 
+			this.applyNoteSettings(this.getNoteSettings(view.file));
+			this.updateIndicator();
+
 			const mode = view.getMode();
 			
 			if (mode === 'preview') {
@@ -131,89 +441,175 @@ export default class FocusPlugin extends Plugin {
 			// For edit mode, focus is handled by CM6 state
 		}));
 
-		this.registerDomEvent(document, 'pointerdown', (evt: PointerEvent) => {
+		// Popout windows have their own document to listen to and style
+		this.registerEvent(this.app.workspace.on('window-open', (win, window) => {
+			this.attachDocument(window.document);
+		}));
+
+		this.registerEvent(this.app.workspace.on('window-close', (win, window) => {
+			this.detachDocument(window.document);
+		}));
+
+		this.attachDocument(document);
+		// Popouts restored with the layout or open before the plugin loaded
+		this.app.workspace.onLayoutReady(() => {
+			this.app.workspace.iterateAllLeaves(leaf => this.attachDocument(leaf.view.containerEl.ownerDocument));
+		});
+		this.register(() => {
+			this.documentListeners.forEach(removeListeners => removeListeners());
+			this.documentListeners.clear();
+		});
+	}
+
+	private attachDocument(doc: Document) {
+		if (this.documentListeners.has(doc))
+			return;
+		this.focusManager.addDocument(doc);
+
+		const onPointerDown = (evt: PointerEvent) => {
 			this.lastClick = evt.timeStamp;
-		})
+			this.lastClickPosition = { x: evt.clientX, y: evt.clientY };
+			this.touchGestures.down(evt);
+		};
 
-		this.registerDomEvent(document, 'pointerup', (evt: MouseEvent) => {
-			if (!this.settings.isEnabled)
-				return;
+		const onPointerMove = (evt: PointerEvent) => {
+			this.touchGestures.move(evt);
+		};
 
-			if (evt.timeStamp - this.lastClick > this.settings.focusSensitivity)
-				return;
+		const onPointerCancel = (evt: PointerEvent) => {
+			this.touchGestures.cancel(evt);
+		};
 
-			if (!(evt.target instanceof Element))
+		const onPointerUp = (evt: PointerEvent) => {
+			// Touches ending a scroll or a gesture are not clicks
+			if (this.touchGestures.up(evt))
 				return;
 
-			const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-			if (!view)
+			if (this.settings.focusTrigger === 'click' || this.settings.focusTrigger === 'modifier-click')
+				this.handleFocusClick(evt);
+		};
+
+		const onDoubleClick = (evt: MouseEvent) => {
+			if (this.settings.focusTrigger === 'double-click')
+				this.handleFocusClick(evt);
+		};
+
+		doc.addEventListener('pointerdown', onPointerDown);
+		doc.addEventListener('pointermove', onPointerMove);
+		doc.addEventListener('pointercancel', onPointerCancel);
+		doc.addEventListener('pointerup', onPointerUp);
+		doc.addEventListener('dblclick', onDoubleClick);
+		this.documentListeners.set(doc, () => {
+			doc.removeEventListener('pointerdown', onPointerDown);
+			doc.removeEventListener('pointermove', onPointerMove);
+			doc.removeEventListener('pointercancel', onPointerCancel);
+			doc.removeEventListener('pointerup', onPointerUp);
+			doc.removeEventListener('dblclick', onDoubleClick);
+		});
+	}
+
+	private detachDocument(doc: Document) {
+		this.documentListeners.get(doc)?.();
+		this.documentListeners.delete(doc);
+		this.focusManager.removeDocument(doc);
+	}
+
+	/**
+	 * Focus what a click points to. Gestures such as a long press are not subject to the click timing and trigger.
+	 */
+	private handleFocusClick(evt: MouseEvent, gesture = false) {
+		if (!this.settings.isEnabled)
+			return;
+
+		if (!gesture && evt.timeStamp - this.lastClick > this.settings.focusSensitivity)
+			return;
+
+		if (!gesture && this.settings.focusTrigger === 'modifier-click' && !evt.altKey && !evt.metaKey)
+			return;
+
+		// Elements of popout windows are not instances of this window's Element
+		const target = evt.target as Node | null;
+		if (!target?.instanceOf(Element))
+			return;
+
+		// Leave text selections made by dragging alone
+		const moved = Math.hypot(evt.clientX - this.lastClickPosition.x, evt.clientY - this.lastClickPosition.y) > 4;
+		if (moved && target.ownerDocument.getSelection()?.isCollapsed === false)
+			return;
+
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view)
+			return;
+
+		// Rules and frontmatter may turn focus off or change its behavior for this note
+		const settings = this.prepareNote(view.file);
+		if (!settings)
+			return;
+
+		const mode = view.getMode();
+
+		// Handle preview mode (existing logic)
+		if (mode === 'preview') {
+			const paneState = this.getPaneState();
+			if (!paneState)
 				return;
 
-			const mode = view.getMode();
+			let focusInfo = getFocusInfo(target)
 
-			// Handle preview mode (existing logic)
-			if (mode === 'preview') {
-				const paneState = this.getPaneState();
-				if (!paneState)
-					return;
-
-				let focusInfo = getFocusInfo(evt.target)
-
-				// fallback to intermediate focus if list is disabled
-				if (!this.settings.enableList && isListFocusInfo(focusInfo))
-					focusInfo = toIntermediateFocusInfo(focusInfo);
-
-				if (isIntermediateFocusInfo(focusInfo) && this.settings.contentBehavior === 'none')
-					return;
-				
-				const currentFocus = this.focusManager.getFocus(paneState.head);
-				if (currentFocus !== undefined) {
-					switch (this.settings.clearMethod) {
-						case 'click-again':
-							if (focusInfo && this.focusManager.isSameFocus(paneState.head, focusInfo)) {
-								this.focusManager.clear(paneState.head);
-								return;
-							}
+			// fallback to intermediate focus if list is disabled
+			if (!settings.enableList && isListFocusInfo(focusInfo))
+				focusInfo = toIntermediateFocusInfo(focusInfo);
+
+			if (isIntermediateFocusInfo(focusInfo) && settings.contentBehavior === 'none')
+				return;
+			
+			const currentFocus = this.focusManager.getFocus(paneState.head);
+			if (currentFocus !== undefined) {
+				switch (settings.clearMethod) {
+					case 'click-again':
+						if (focusInfo && this.focusManager.isSameFocus(paneState.head, focusInfo)) {
+							this.focusManager.clear(paneState.head);
+							return;
+						}
+						break;
+					case 'click-outside':
+						if (target.classList.contains('markdown-preview-view')) {
+							this.focusManager.clear(paneState.head);
+							return;
+						}
+						break;
+				}
+			}
+
+			if (isIntermediateFocusInfo(focusInfo)) {
+				const activeFile = this.app.workspace.getActiveFile();
+				const metadata = activeFile !== null ? this.app.metadataCache.getFileCache(activeFile) : null;
+				if (metadata) {
+					switch (settings.contentBehavior) {
+						case 'content':
+							focusInfo.metadata = metadata;
+							// fall through
+						case 'element':
+							this.focusManager.focus(paneState.head, focusInfo);
 							break;
-						case 'click-outside':
-							if (evt.target.classList.contains('markdown-preview-view')) {
-								this.focusManager.clear(paneState.head);
-								return;
-							}
+						default:
 							break;
 					}
 				}
-
-				if (isIntermediateFocusInfo(focusInfo)) {
-					const activeFile = this.app.workspace.getActiveFile();
-					const metadata = activeFile !== null ? this.app.metadataCache.getFileCache(activeFile) : null;
-					if (metadata) {
-						switch (this.settings.contentBehavior) {
-							case 'content':
-								focusInfo.metadata = metadata;
-								// fall through
-							case 'element':
-								this.focusManager.focus(paneState.head, focusInfo);
-								break;
-							default:
-								break;
-						}
-					}
-					else {
-						FocusPluginLogger.log('Error', 'No metadata found for active file');
-					}
+				else {
+					FocusPluginLogger.log('Error', 'No metadata found for active file');
 				}
-				else if (focusInfo != null)
-					this.focusManager.focus(paneState.head, focusInfo);
-			}
-			// Handle edit/source mode (new logic)
-			else if (mode === 'source') {
-				this.handleEditModeClick(evt, view);
 			}
-		});
+			else if (focusInfo != null)
+				this.focusManager.focus(paneState.head, focusInfo);
+		}
+		// Handle edit/source mode (new logic)
+		else if (mode === 'source') {
+			this.handleEditModeClick(evt, view, settings);
+		}
 	}
 
-	private handleEditModeClick(evt: MouseEvent, view: MarkdownView) {
+	private handleEditModeClick(evt: MouseEvent, view: MarkdownView, settings: FocusPluginSettings) {
 		const editorView = this.getEditorView();
 		if (!editorView) return;
 
@@ -222,37 +618,37 @@ export default class FocusPlugin extends Plugin {
 		const metadata = activeFile ? this.app.metadataCache.getFileCache(activeFile) : null;
 		this.editModeFocusManager.setMetadata(metadata);
 
-		// Get clicked position in the editor
-		const pos = editorView.posAtCoords({ x: evt.clientX, y: evt.clientY });
-		if (!pos) return;
-
-		// Convert position to line number
-		const line = editorView.state.doc.lineAt(pos);
-		const lineNumber = line.number;
+		// Get clicked position in the editor. Widgets rendered by live preview, e.g. callouts
+		// and tables, are mapped to the start of their source instead.
+		const widget = (evt.target as Element).closest('.cm-embed-block');
+		const pos = widget && editorView.contentDOM.contains(widget)
+			? editorView.posAtDOM(widget)
+			: editorView.posAtCoords({ x: evt.clientX, y: evt.clientY });
+		if (pos === null) return;
 
-		// Check if clicking on same line again (to clear focus)
+		// Check if clicking on the focused range again (to clear focus)
 		const currentFocus = editorView.state.field(focusStateField, false);
-		if (currentFocus && this.settings.clearMethod === 'click-again') {
-			if (lineNumber >= currentFocus.fromLine && lineNumber <= currentFocus.toLine) {
+		if (currentFocus && settings.clearMethod === 'click-again') {
+			if (this.editModeFocusManager.isPositionFocused(editorView, pos)) {
 				this.editModeFocusManager.clearFocus(editorView);
 				return;
 			}
 		}
 
 		// Check if clicking outside focused area (to clear focus)
-		if (currentFocus && this.settings.clearMethod === 'click-outside') {
+		if (currentFocus && settings.clearMethod === 'click-outside') {
 			// Check if clicked on gutter or outside content
-			if (evt.target instanceof Element && 
-				(evt.target.classList.contains('cm-gutters') || 
-				evt.target.classList.contains('cm-editor'))) {
+			const target = evt.target as Element;
+			if (target.classList.contains('cm-gutters') || 
+				target.classList.contains('cm-editor')) {
 				this.editModeFocusManager.clearFocus(editorView);
 				return;
 			}
 		}
 
-		// Get focus info for clicked line
-		const focusInfo = this.editModeFocusManager.getFocusInfoForLine(
-			lineNumber, 
+		// Get focus info for clicked position
+		const focusInfo = this.editModeFocusManager.getFocusInfoForPosition(
+			pos, 
 			editorView.state.doc
 		);
 
@@ -261,48 +657,699 @@ export default class FocusPlugin extends Plugin {
 		}
 	}
 
-	onunload() {
-		this.focusManager.destroy();
-		
-		// Clear edit mode focus
+	private handleCursorMove(editorView: EditorView, pos: number) {
+		const settings = this.getNoteSettings(this.getEditorFile(editorView.state));
+		if (!this.settings.isEnabled || !settings.isEnabled || !settings.followCursor)
+			return;
+
+		// Still inside the focused section, nothing to do
+		if (this.editModeFocusManager.isPositionFocused(editorView, pos))
+			return;
+
+		this.editModeFocusManager.setMetadata(this.getEditorMetadata(editorView.state));
+
+		const focusInfo = this.editModeFocusManager.getFocusInfoForPosition(pos, editorView.state.doc, this.getFocusOptions(settings));
+		if (!focusInfo) return;
+
+		// Update listeners run once the editor is done updating, the focus can be applied right away
+		this.editModeFocusManager.applyFocus(editorView, focusInfo);
+	}
+
+	private navigateFocus(direction: NavigationDirection) {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view || !view.file || !this.prepareNote(view.file))
+			return;
+
+		const metadata = this.app.metadataCache.getFileCache(view.file);
+		const headings = metadata?.headings || [];
+		if (headings.length === 0)
+			return;
+
+		if (view.getMode() === 'source') {
+			const editorView = this.getEditorView();
+			if (!editorView) return;
+
+			// Navigate from the focused section, or from the caret if nothing is focused
+			const currentFocus = editorView.state.field(focusStateField, false);
+			const currentLine = currentFocus
+				? currentFocus.fromLine
+				: editorView.state.doc.lineAt(editorView.state.selection.main.head).number;
+
+			const target = getNavigationTarget(headings, currentLine - 1, direction);
+			if (!target) return;
+
+			this.editModeFocusManager.setMetadata(metadata);
+			const focusInfo = this.editModeFocusManager.getHeadingFocusInfo(target.position.start.line + 1, target.level, editorView.state.doc);
+			this.editModeFocusManager.applyFocus(editorView, focusInfo, true);
+		}
+		else {
+			const paneState = this.getPaneState();
+			if (!paneState) return;
+
+			// Navigate from the focused block, or from the top of the viewport if nothing is focused
+			const currentFocus = this.focusManager.getFocus(paneState.head);
+			const currentLine = (currentFocus && getBlockLine(paneState.head, currentFocus.block, headings)) ?? view.previewMode.getScroll();
+
+			const target = getNavigationTarget(headings, Math.floor(currentLine), direction);
+			if (!target) return;
+
+			// Scroll first so that the target heading gets rendered
+			view.previewMode.applyScroll(target.position.start.line);
+			requestAnimationFrame(() => {
+				const focusInfo = getHeaderFocusInfoByName(paneState.head, target.heading, getHeadingOccurrence(headings, target));
+				if (focusInfo)
+					this.focusManager.focus(paneState.head, focusInfo);
+				else
+					FocusPluginLogger.log('Error', `Heading '${target.heading}' not found in the rendered view`);
+			});
+		}
+	}
+
+	private navigateListFocus(direction: 'parent' | 'child') {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view || !this.prepareNote(view.file))
+			return;
+
+		if (view.getMode() === 'preview') {
+			const paneState = this.getPaneState();
+			if (!paneState) return;
+
+			const currentFocus = this.focusManager.getFocus(paneState.head);
+			if (!isListFocusInfo(currentFocus)) return;
+
+			const focusInfo = direction === 'parent' ? getParentListFocusInfo(currentFocus) : getChildListFocusInfo(currentFocus);
+			if (focusInfo)
+				this.focusManager.focus(paneState.head, focusInfo);
+			return;
+		}
+
 		const editorView = this.getEditorView();
-		if (editorView) {
-			this.editModeFocusManager.clearFocus(editorView);
+		if (!editorView) return;
+
+		// Start from the focused item, or from the item under the caret
+		const doc = editorView.state.doc;
+		const pos = editorView.state.selection.main.head;
+		this.editModeFocusManager.setMetadata(this.getEditorMetadata(editorView.state));
+		const currentFocus = editorView.state.field(focusStateField, false);
+		const currentItem = currentFocus?.type === 'list' ? currentFocus : this.editModeFocusManager.getListFocusInfo(doc.lineAt(pos).number, doc);
+		if (!currentItem) return;
+
+		const focusInfo = direction === 'parent'
+			? this.editModeFocusManager.getParentListFocusInfo(currentItem, doc)
+			: this.editModeFocusManager.getChildListFocusInfo(currentItem, pos, doc);
+		if (focusInfo)
+			this.editModeFocusManager.applyFocus(editorView, focusInfo, true);
+	}
+
+	private convertFocus(pane: Pane) {
+		const settings = this.prepareNote(pane.view.file);
+		if (!settings || !pane.view.file)
+			return;
+
+		const metadata = this.app.metadataCache.getFileCache(pane.view.file);
+		if (!metadata)
+			return;
+
+		if (pane.mode === 'source') {
+			const readingFocus = this.focusManager.getFocus(pane.head);
+			if (!readingFocus || !pane.editorView)
+				return;
+
+			const focusInfo = toEditModeFocusInfo(pane, readingFocus, metadata, this.editModeFocusManager);
+			if (focusInfo)
+				this.editModeFocusManager.applyFocus(pane.editorView, focusInfo);
+		}
+		else if (pane.mode === 'preview') {
+			const editFocus = pane.editorView?.state.field(focusStateField, false);
+			if (!editFocus)
+				return;
+
+			// Wait for the reading view to be rendered
+			requestAnimationFrame(() => {
+				const focusInfo = toReadingFocusInfo(pane, editFocus, metadata, settings.contentBehavior === 'content');
+				if (focusInfo)
+					this.focusManager.focus(pane.head, focusInfo);
+				else
+					FocusPluginLogger.log('Debug', 'Focus could not be converted to reading mode');
+			});
 		}
 	}
 
-	private async settingsPreprocessor(settings: FocusPluginSettings) {
+	private handleFocusChange(pane: Pane, focusInfo: EditModeFocusInfo | null) {
+		this.updateIndicator();
+		if (!pane.view.file)
+			return;
+
+		// Listeners hear of every change, including synced ones and global clears
+		const event: FocusChangedEvent = {
+			file: pane.view.file,
+			view: pane.view,
+			range: focusInfo ? { fromLine: focusInfo.fromLine, toLine: focusInfo.toLine, type: focusInfo.type } : null
+		};
+		this.app.workspace.trigger(FOCUS_CHANGED_EVENT, event);
+
+		// Propagated changes are not recorded nor synced again
+		if (this.propagatingFocus)
+			return;
+
+		const metadata = this.app.metadataCache.getFileCache(pane.view.file);
+		const savedFocus = focusInfo ? toSavedFocus(focusInfo, metadata, pane.editorView?.state.doc ?? null) : null;
+
+		if (savedFocus && !this.skipHistory) {
+			let history = this.histories.get(pane.leaf);
+			if (!history) {
+				history = new FocusHistory();
+				this.histories.set(pane.leaf, history);
+			}
+			history.push(pane.view.file.path, savedFocus);
+		}
+
+		if (this.settings.restoreFocus)
+			this.rememberFocus(pane.view.file.path, savedFocus);
+		this.syncFocus(pane, focusInfo);
+	}
+
+	/**
+	 * Focus the section at the cursor (Edit mode) or at the top of the view (Reading mode)
+	 */
+	private focusCurrentSection() {
+		const pane = this.getPaneState();
+		if (!pane || !pane.view.file || !pane.editorView || !this.prepareNote(pane.view.file))
+			return;
+
+		const metadata = this.app.metadataCache.getFileCache(pane.view.file);
+		const doc = pane.editorView.state.doc;
+		this.editModeFocusManager.setMetadata(metadata);
+
+		const focusInfo = pane.mode === 'source'
+			? this.editModeFocusManager.getFocusInfoForPosition(pane.editorView.state.selection.main.head, doc)
+			: this.editModeFocusManager.getFocusInfoForLine(Math.min(Math.floor(pane.view.previewMode.getScroll()) + 1, doc.lines), doc);
+		if (focusInfo)
+			this.applyFocusToPane(pane, focusInfo, metadata);
+	}
+
+	private getFocusedSection(): FocusedSection | null {
+		const pane = this.getPaneState();
+		if (!pane || !pane.view.file || !pane.editorView || !this.prepareNote(pane.view.file))
+			return null;
+
+		const focusInfo = this.getPaneFocusInfo(pane);
+		if (!focusInfo)
+			return null;
+
+		const doc = pane.editorView.state.doc;
+		const range = getFocusedRange(focusInfo, doc);
+		const headings = this.app.metadataCache.getFileCache(pane.view.file)?.headings || [];
+		const heading = focusInfo.type === 'heading' ? headings.find(heading => heading.position.start.line === focusInfo.fromLine - 1) : undefined;
+		const markdown = doc.sliceString(range.from, range.to);
+		return {
+			pane,
+			editorView: pane.editorView,
+			file: pane.view.file,
+			focusInfo,
+			markdown,
+			title: heading ? heading.heading : toFileName(markdown.split(/\s+/).slice(0, 8).join(' '))
+		};
+	}
+
+	private async copySection(section: FocusedSection, html: boolean) {
+		if (!html) {
+			await navigator.clipboard.writeText(section.markdown);
+		}
+		else {
+			const rendered = await renderSectionHtml(section.markdown, section.file.path);
+			await navigator.clipboard.write([new ClipboardItem({
+				'text/html': new Blob([rendered], { type: 'text/html' }),
+				'text/plain': new Blob([section.markdown], { type: 'text/plain' })
+			})]);
+		}
+		new Notice(`Focus: copied ${section.title}`);
+	}
+
+	/**
+	 * Move the focused section into a note of its own, leaving a link to it behind
+	 */
+	private async extractSection(section: FocusedSection) {
+		const folder = this.app.fileManager.getNewFileParent(section.file.path).path;
+		const newFile = await this.app.vault.create(getAvailablePath(this.app.vault, folder, toFileName(section.title), 'md'), section.markdown);
+
+		const link = this.app.fileManager.generateMarkdownLink(newFile, section.file.path);
+		const range = getFocusedRange(section.focusInfo, section.editorView.state.doc);
+		this.clearPane(section.pane);
+		section.editorView.dispatch({ changes: { from: range.from, to: range.to, insert: link } });
+		new Notice(`Focus: extracted ${section.title} to ${newFile.path}`);
+	}
+
+	/**
+	 * Move the focused section to the end of another heading's section, keeping it focused
+	 */
+	private moveSection(section: FocusedSection) {
+		const { focusInfo, editorView } = section;
+		const headings = this.app.metadataCache.getFileCache(section.file)?.headings || [];
+		// Headings inside the focused section cannot be targets, but still end the sections before them
+		const targets = headings.filter(heading => heading.position.start.line < focusInfo.fromLine - 1 || heading.position.start.line > focusInfo.toLine - 1);
+
+		new HeadingSuggestModal(this.app, targets, heading => {
+			const doc = editorView.state.doc;
+			const insertAt = doc.line(getSectionEndLine(headings, heading, doc)).to;
+			const removed = getRemovedRange(focusInfo, doc);
+			if (insertAt > removed.from && insertAt < removed.to) {
+				new Notice(`Focus: cannot move ${section.title} under ${heading.heading}, its section ends inside the focused section`);
+				return;
+			}
+
+			// Keep a blank line after text ending the target section, or both paragraphs would join
+			const separator = doc.lineAt(insertAt).text.trim() === '' ? '\n' : '\n\n';
+			const transaction = editorView.state.update({
+				changes: [
+					{ from: removed.from, to: removed.to },
+					{ from: insertAt, insert: separator + section.markdown }
+				]
+			});
+			editorView.dispatch(transaction);
+
+			// The section now starts on the line after the insertion point
+			const newDoc = editorView.state.doc;
+			const fromLine = newDoc.lineAt(transaction.changes.mapPos(insertAt, 1)).number - section.markdown.split('\n').length + 1;
+			const movedInfo: EditModeFocusInfo = {
+				fromLine,
+				toLine: fromLine + focusInfo.toLine - focusInfo.fromLine,
+				type: focusInfo.type === 'sentence' ? 'paragraph' : focusInfo.type,
+				level: focusInfo.level,
+				anchor: newDoc.line(fromLine).from
+			};
+			this.applyFocusToPane(section.pane, movedInfo, this.app.metadataCache.getFileCache(section.file), true);
+		}, 'Move under heading...').open();
+	}
+
+	/**
+	 * Export the focused section alone, as an HTML file next to the note or through the print dialog as PDF
+	 */
+	private async exportSection(section: FocusedSection, format: 'html' | 'pdf') {
+		const title = section.title === section.file.basename ? section.title : `${section.file.basename} - ${section.title}`;
+		const html = toHtmlDocument(title, await renderSectionHtml(section.markdown, section.file.path));
+
+		if (format === 'html') {
+			const folder = section.file.parent?.path ?? '';
+			const file = await this.app.vault.create(getAvailablePath(this.app.vault, folder, toFileName(title), 'html'), html);
+			new Notice(`Focus: exported ${section.title} to ${file.path}`);
+			return;
+		}
+
+		// Print from a frame holding only the section, where the system dialog offers to save as PDF
+		const frame = document.body.createEl('iframe', { cls: 'focus-plugin-print-frame' });
+		const frameWindow = frame.contentWindow;
+		if (!frameWindow) {
+			frame.remove();
+			return;
+		}
+		frameWindow.document.open();
+		frameWindow.document.write(html);
+		frameWindow.document.close();
+		frameWindow.addEventListener('afterprint', () => frame.remove(), { once: true });
+		frameWindow.focus();
+		frameWindow.print();
+	}
+
+	private pickHeading() {
+		const pane = this.getPaneState();
+		const metadata = pane?.view.file ? this.app.metadataCache.getFileCache(pane.view.file) : null;
+		if (!pane || !metadata?.headings || !this.prepareNote(pane.view.file))
+			return;
+
+		// Focus the picked heading itself, other headings may share its text or path
+		new HeadingSuggestModal(this.app, metadata.headings, heading => {
+			if (this.prepareNote(pane.view.file))
+				this.applyHeadingFocus(pane, heading, metadata);
+		}).open();
+	}
+
+	private focusHeading(file: TFile, headingPath: string[]): boolean {
+		if (!this.prepareNote(file))
+			return false;
+
+		// Prefer the active pane when it shows the file
+		const active = this.getPaneState();
+		const pane = active?.view.file === file ? active : this.panes.getAllForFile(file)[0];
+		const metadata = this.app.metadataCache.getFileCache(file);
+		if (!pane || !pane.editorView || !metadata)
+			return false;
+
+		const heading = findHeading(metadata.headings || [], headingPath);
+		if (!heading)
+			return false;
+
+		return this.applyHeadingFocus(pane, heading, metadata);
+	}
+
+	/**
+	 * Focus the section of a heading in a pane and scroll to it
+	 */
+	private applyHeadingFocus(pane: Pane, heading: HeadingCache, metadata: CachedMetadata): boolean {
+		if (!pane.editorView)
+			return false;
+
+		this.editModeFocusManager.setMetadata(metadata);
+		const focusInfo = this.editModeFocusManager.getHeadingFocusInfo(heading.position.start.line + 1, heading.level, pane.editorView.state.doc);
+		this.applyFocusToPane(pane, focusInfo, metadata, true);
+		return true;
+	}
+
+	private async handleFocusUri(params: ObsidianProtocolData) {
+		if (!params.file)
+			return;
+
+		const file = this.app.metadataCache.getFirstLinkpathDest(params.file, '');
+		if (!file) {
+			new Notice(`Focus: cannot find ${params.file}`);
+			return;
+		}
+
+		const leaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(file);
+		if (!(leaf.view instanceof MarkdownView) || !this.prepareNote(file))
+			return;
+
+		const pane = this.panes.get(leaf.view);
+		const metadata = this.app.metadataCache.getFileCache(file);
+		if (!pane.editorView || !metadata)
+			return;
+
+		const doc = pane.editorView.state.doc;
+		this.editModeFocusManager.setMetadata(metadata);
+
+		let focusInfo: EditModeFocusInfo | null = null;
+		if (params.heading) {
+			// Nested headings are separated like in links: Parent#Child
+			const heading = findHeading(metadata.headings || [], params.heading.split('#'));
+			if (heading)
+				focusInfo = this.editModeFocusManager.getHeadingFocusInfo(heading.position.start.line + 1, heading.level, doc);
+		}
+		else if (params.block) {
+			const block = metadata.blocks?.[params.block.replace(/^\^/, '')];
+			if (block)
+				focusInfo = this.editModeFocusManager.getBlockFocusInfo(block.position.start.line + 1, doc);
+		}
+		else if (params.line) {
+			const line = parseInt(params.line);
+			if (line >= 1 && line <= doc.lines)
+				focusInfo = this.editModeFocusManager.getFocusInfoForLine(line, doc);
+		}
+
+		if (focusInfo)
+			this.applyFocusToPane(pane, focusInfo, metadata, true);
+		else if (params.heading || params.block || params.line)
+			new Notice(`Focus: cannot find the section in ${file.basename}`);
+	}
+
+	private focusLines(view: MarkdownView, fromLine: number, toLine: number): boolean {
+		const pane = this.panes.get(view);
+		if (!pane.editorView || !view.file || !this.prepareNote(view.file))
+			return false;
+
+		const doc = pane.editorView.state.doc;
+		if (fromLine < 1 || fromLine > toLine || toLine > doc.lines)
+			return false;
+
+		const focusInfo: EditModeFocusInfo = {
+			fromLine,
+			toLine,
+			type: 'range',
+			anchor: doc.line(fromLine).from
+		};
+		this.applyFocusToPane(pane, focusInfo, this.app.metadataCache.getFileCache(view.file), true);
+		return true;
+	}
+
+	/**
+	 * Get the focus of a pane in either mode, as an edit mode focus
+	 */
+	private getPaneFocusInfo(pane: Pane): EditModeFocusInfo | null {
+		if (pane.mode === 'source')
+			return pane.editorView?.state.field(focusStateField, false) ?? null;
+
+		const readingFocus = this.focusManager.getFocus(pane.head);
+		const metadata = pane.view.file ? this.app.metadataCache.getFileCache(pane.view.file) : null;
+		return readingFocus && metadata ? toEditModeFocusInfo(pane, readingFocus, metadata, this.editModeFocusManager) : null;
+	}
+
+	private getFocusRange(pane: Pane): FocusRange | null {
+		const focusInfo = this.getPaneFocusInfo(pane);
+		return focusInfo ? { fromLine: focusInfo.fromLine, toLine: focusInfo.toLine, type: focusInfo.type } : null;
+	}
+
+	/**
+	 * Show the state of the plugin in the status bar, with the breadcrumb and stats of the active focus
+	 */
+	private updateIndicator() {
+		const parts = [this.settings.isEnabled ? 'Focus: on' : 'Focus: off'];
+
+		const pane = this.getPaneState();
+		const focusInfo = this.settings.isEnabled && this.settings.indicatorDetails && pane ? this.getPaneFocusInfo(pane) : null;
+		if (pane && focusInfo && pane.editorView && pane.view.file) {
+			const headings = this.app.metadataCache.getFileCache(pane.view.file)?.headings || [];
+			const index = findHeadingIndexAtLine(headings, focusInfo.fromLine - 1);
+			if (index !== -1)
+				parts.push(getHeadingPath(headings, headings[index]).join(' \u203A '));
+
+			const stats = getSectionStats(focusInfo, pane.editorView.state.doc);
+			parts.push(`${stats.words} word${stats.words === 1 ? '' : 's'}`, `${stats.minutes} min`);
+		}
+
+		this.indicatorEl.textContent = parts.join(' \u00B7 ');
+	}
+
+	private showIndicatorMenu(evt: MouseEvent) {
+		const menu = new Menu();
+		const pane = this.getPaneState();
+		if (this.settings.isEnabled && pane) {
+			menu.addItem(item => item
+				.setTitle('Clear Focus')
+				.setIcon('cross')
+				.onClick(() => this.clearPane(pane)));
+			menu.addItem(item => item
+				.setTitle('Focus Parent Section')
+				.setIcon('arrow-up')
+				.onClick(() => this.navigateFocus('parent')));
+		}
+		menu.addItem(item => item
+			.setTitle(this.settings.isEnabled ? 'Turn Focus Off' : 'Turn Focus On')
+			.setIcon('power')
+			.onClick(() => this.toggle()));
+		menu.showAtMouseEvent(evt);
+	}
+
+	private focusLinkTarget(leaf: WorkspaceLeaf, file: TFile, subpath: string) {
+		if (!this.settings.focusLinkTarget || !(leaf.view instanceof MarkdownView))
+			return;
+
+		const pane = this.panes.get(leaf.view);
+		if (pane.view.file !== file || !pane.editorView || !this.prepareNote(file))
+			return;
+
+		const metadata = this.app.metadataCache.getFileCache(file);
+		const target = metadata ? resolveSubpath(metadata, subpath) : null;
+		if (!target)
+			return;
+
+		const doc = pane.editorView.state.doc;
+		this.editModeFocusManager.setMetadata(metadata);
+		const focusInfo = target.type === 'heading'
+			? this.editModeFocusManager.getHeadingFocusInfo(target.current.position.start.line + 1, target.current.level, doc)
+			: this.editModeFocusManager.getBlockFocusInfo(target.block.position.start.line + 1, doc);
+		if (focusInfo)
+			this.applyFocusToPane(pane, focusInfo, metadata, true);
+	}
+
+	private rememberFocus(path: string, savedFocus: SavedFocus | null) {
+		// Replace rather than mutate, the default value is shared
+		const saved = Object.assign({}, this.settings.savedFocus);
+		if (savedFocus)
+			saved[path] = savedFocus;
+		else
+			delete saved[path];
+		this.settings.savedFocus = saved;
+		this.saveFocusState();
+	}
+
+	private restoreFocus(file: TFile) {
+		if (!this.settings.restoreFocus || !this.getNoteSettings(file).isEnabled)
+			return;
+
+		const savedFocus = this.settings.savedFocus[file.path];
+		const pane = this.getPaneState();
+		if (!savedFocus || !pane || pane.view.file !== file || !pane.editorView)
+			return;
+
+		// Wait for the view to show the file
+		requestAnimationFrame(() => {
+			if (!pane.editorView)
+				return;
+
+			// Keep whatever got focused in the meantime
+			if (pane.mode === 'source' ? pane.editorView.state.field(focusStateField, false) : this.focusManager.getFocus(pane.head))
+				return;
+			if (!this.prepareNote(file))
+				return;
+
+			const metadata = this.app.metadataCache.getFileCache(file);
+			const focusInfo = fromSavedFocus(savedFocus, metadata, pane.editorView.state.doc, this.editModeFocusManager);
+			// Scroll to it, reading mode only renders the blocks near the top of a reopened note
+			if (focusInfo)
+				this.applyFocusToPane(pane, focusInfo, metadata, true);
+		});
+	}
+
+	private navigateHistory(direction: 'back' | 'forward') {
+		const pane = this.getPaneState();
+		if (!pane || !pane.view.file || !pane.editorView || !this.prepareNote(pane.view.file))
+			return;
+
+		const history = this.histories.get(pane.leaf);
+		const entry = direction === 'back' ? history?.back(pane.view.file.path) : history?.forward(pane.view.file.path);
+		if (!entry)
+			return;
+
+		const metadata = this.app.metadataCache.getFileCache(pane.view.file);
+		const focusInfo = fromSavedFocus(entry, metadata, pane.editorView.state.doc, this.editModeFocusManager);
+		if (focusInfo)
+			this.applyFocusToPane(pane, focusInfo, metadata, true, false);
+	}
+
+	/**
+	 * Apply a focus to a pane in its current mode, optionally scrolling to it
+	 */
+	private applyFocusToPane(pane: Pane, focusInfo: EditModeFocusInfo, metadata: CachedMetadata | null, scroll = false, record = true) {
+		const apply = () => {
+			const skipHistory = this.skipHistory;
+			this.skipHistory = !record;
+			try {
+				if (pane.mode === 'source' && pane.editorView) {
+					this.editModeFocusManager.applyFocus(pane.editorView, focusInfo, scroll);
+				}
+				else if (pane.mode === 'preview' && metadata) {
+					const readingFocus = toReadingFocusInfo(pane, focusInfo, metadata, this.getNoteSettings(pane.view.file).contentBehavior === 'content');
+					if (readingFocus)
+						this.focusManager.focus(pane.head, readingFocus);
+				}
+			}
+			finally {
+				this.skipHistory = skipHistory;
+			}
+		};
+
+		if (scroll && pane.mode === 'preview') {
+			// Scroll first so that the target gets rendered
+			pane.view.previewMode.applyScroll(focusInfo.fromLine - 1);
+			requestAnimationFrame(apply);
+		}
+		else {
+			apply();
+		}
+	}
+
+	/**
+	 * Mirror a focus change to the other panes showing the same file, in their own mode
+	 */
+	private syncFocus(source: Pane, focusInfo: EditModeFocusInfo | null) {
+		if (!this.settings.syncPanes || !source.view.file || !this.prepareNote(source.view.file))
+			return;
+
+		const metadata = this.app.metadataCache.getFileCache(source.view.file);
+		const targets = this.panes.getAllForFile(source.view.file).filter(pane => pane.leaf !== source.leaf);
+
+		// Changes made here must not be mirrored back
+		this.withoutPropagation(() => {
+			targets.forEach(pane => {
+				if (focusInfo === null)
+					this.clearPane(pane);
+				else
+					this.applyFocusToPane(pane, focusInfo, metadata);
+			});
+		});
+	}
+
+	private withoutPropagation(callback: () => void) {
+		const syncing = this.propagatingFocus;
+		this.propagatingFocus = true;
+		try {
+			callback();
+		}
+		finally {
+			this.propagatingFocus = syncing;
+		}
+	}
+
+	private clearPane(pane: Pane) {
+		this.focusManager.clear(pane.head);
+		if (pane.editorView) {
+			this.editModeFocusManager.clearFocus(pane.editorView);
+		}
+	}
+
+	private clearAllPanes() {
 		this.focusManager.clearAll();
-		this.focusManager.includeBody = settings.focusScope === 'content';
-		
-		// Update edit mode manager settings
-		this.editModeFocusManager.setIncludeBody(settings.focusScope === 'content');
-		
-		// Clear edit mode focus
-		const editorView = this.getEditorView();
-		if (editorView) {
-			this.editModeFocusManager.clearFocus(editorView);
+		this.clearAllEditors();
+	}
+
+	private clearAllEditors() {
+		this.panes.getAll().forEach(pane => {
+			if (pane.editorView) {
+				this.editModeFocusManager.clearFocus(pane.editorView);
+			}
+		});
+	}
+
+	onunload() {
+		// Clear the focus of every pane, keeping the saved focus of each note
+		this.withoutPropagation(() => {
+			this.focusManager.destroy();
+			this.clearAllEditors();
+		});
+
+		this.refreshIndicator.cancel();
+		// Save a focus set just before quitting rather than dropping it with the pending save
+		this.saveFocusState.cancel();
+		this.saveData(this.settings);
+	}
+
+	private async settingsPreprocessor(settings: FocusPluginSettings) {
+		// Clear the focus of every pane, keeping the saved focus of each note
+		this.withoutPropagation(() => this.focusManager.clearAll());
+		// Rules may have changed, keep the manager on the settings of the active note
+		this.applyNoteSettings(this.getNoteSettings(this.app.workspace.getActiveFile()));
+		this.focusManager.setEffect(settings.focusEffect);
+		this.focusManager.setSpotlight(settings.spotlight);
+
+		// Hiding in edit mode replaces lines, which only an extension of its own can do
+		const folding = this.editorExtensions.indexOf(focusFoldDecorations);
+		if ((settings.focusEffect === 'hide') !== (folding !== -1)) {
+			if (folding === -1)
+				this.editorExtensions.push(focusFoldDecorations);
+			else
+				this.editorExtensions.splice(folding, 1);
+			this.app.workspace.updateOptions();
 		}
+		this.withoutPropagation(() => this.clearAllEditors());
 
 		if (settings.indicator && !this.indicator) {
 			this.indicator = this.addStatusBarItem();
 			this.indicator.appendChild(this.indicatorEl);
 			this.indicator.classList.add('mod-clickable');
-			this.indicator.onclick = () => this.toggle();
+			this.indicator.onclick = (evt) => this.showIndicatorMenu(evt);
 		}
 		else if (!settings.indicator && this.indicator) {
 			this.indicator.remove();
 			this.indicator = null;
 		}
 
-		if (settings.isEnabled){
-			this.indicatorEl.innerHTML = 'Focus: on';
-			this.focusManager.init();
-		}
-		else {
-			this.indicatorEl.innerHTML = 'Focus: off';
-			this.focusManager.destroy();
-		}
+		this.withoutPropagation(() => {
+			if (settings.isEnabled)
+				this.focusManager.init();
+			else
+				this.focusManager.destroy();
+		});
+		this.updateIndicator();
 	}
 
 	async loadSettings() {
@@ -375,6 +1422,60 @@ class FocusPluginSettingTab extends PluginSettingTab {
 					FocusPluginLogger.log('Debug', 'focus scope changed to ' + value);
 				}));
 
+		new Setting(containerEl)
+			.setName('Focus Effect')
+			.setDesc('How the focused section stands out, in both Reading mode and Edit mode')
+			.addDropdown(dropdown => dropdown.addOptions({
+				'dim': 'Dim the rest',
+				'blur': 'Blur the rest',
+				'grayscale': 'Gray out the rest',
+				'hide': 'Hide the rest',
+				'highlight': 'Highlight the focus'
+			})
+				.setValue(this.plugin.settings.focusEffect)
+				.onChange(async (value: FocusPluginSettings["focusEffect"]) => {
+					this.plugin.settings.focusEffect = value;
+					await this.plugin.saveSettings();
+					FocusPluginLogger.log('Debug', 'focus effect changed to ' + value);
+				}));
+
+		new Setting(containerEl)
+			.setName('Spotlight')
+			.setDesc('With the dim effect, dim nearby content only slightly and fade it with the distance from the focused section')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.spotlight)
+				.onChange(async (value: FocusPluginSettings["spotlight"]) => {
+					this.plugin.settings.spotlight = value;
+					await this.plugin.saveSettings();
+					FocusPluginLogger.log('Debug', 'spotlight changed to ' + value);
+				}));
+
+		new Setting(containerEl)
+			.setName('Focus Granularity')
+			.setDesc('What to focus in Edit mode')
+			.addDropdown(dropdown => dropdown.addOptions({
+				'section': 'Block or section (see Focus Scope)',
+				'sentence': 'Sentence',
+				'line': 'Line'
+			})
+				.setValue(this.plugin.settings.focusGranularity)
+				.onChange(async (value: FocusPluginSettings["focusGranularity"]) => {
+					this.plugin.settings.focusGranularity = value;
+					await this.plugin.saveSettings();
+					FocusPluginLogger.log('Debug', 'focus granularity changed to ' + value);
+				}));
+
+		new Setting(containerEl)
+			.setName('Follow Cursor')
+			.setDesc('In Edit mode, move the focus to the section containing the cursor whenever it moves')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.followCursor)
+				.onChange(async (value: FocusPluginSettings["followCursor"]) => {
+					this.plugin.settings.followCursor = value;
+					await this.plugin.saveSettings();
+					FocusPluginLogger.log('Debug', 'follow cursor changed to ' + value);
+				}));
+
 		new Setting(containerEl)
 			.setName('Content Behavior')
 			.setDesc('What to do when clicking on the content elements, e.g. pure text, callout block')
@@ -391,9 +1492,42 @@ class FocusPluginSettingTab extends PluginSettingTab {
 					FocusPluginLogger.log('Debug', 'content behavior changed to ' + value);
 				}));
 
+		new Setting(containerEl)
+			.setName('Sync Focus Across Panes')
+			.setDesc('Mirror the focus in every pane showing the same note, in Reading mode and Edit mode alike')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.syncPanes)
+				.onChange(async (value: FocusPluginSettings["syncPanes"]) => {
+					this.plugin.settings.syncPanes = value;
+					await this.plugin.saveSettings();
+					FocusPluginLogger.log('Debug', 'sync panes changed to ' + value);
+				}));
+
+		new Setting(containerEl)
+			.setName('Restore Focus')
+			.setDesc('Remember the focused section of each note and restore it when the note is opened again')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.restoreFocus)
+				.onChange(async (value: FocusPluginSettings["restoreFocus"]) => {
+					this.plugin.settings.restoreFocus = value;
+					await this.plugin.saveSettings();
+					FocusPluginLogger.log('Debug', 'restore focus changed to ' + value);
+				}));
+
+		new Setting(containerEl)
+			.setName('Focus Link Target')
+			.setDesc('Focus the linked heading section or block when following a link to a heading or block')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.focusLinkTarget)
+				.onChange(async (value: FocusPluginSettings["focusLinkTarget"]) => {
+					this.plugin.settings.focusLinkTarget = value;
+					await this.plugin.saveSettings();
+					FocusPluginLogger.log('Debug', 'focus link target changed to ' + value);
+				}));
+
 		new Setting(containerEl)
 			.setName('Enable List')
-			.setDesc('Focus on the list item (experimental, only works on the first level list)')
+			.setDesc('Focus on the list item and its nested items, at any depth')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.enableList)
 				.onChange(async (value: FocusPluginSettings["enableList"]) => {
@@ -413,6 +1547,33 @@ class FocusPluginSettingTab extends PluginSettingTab {
 					FocusPluginLogger.log('Debug', 'indicator changed to ' + value);
 				}));
 
+		new Setting(containerEl)
+			.setName('Show Focus Details')
+			.setDesc('Show the heading path, word count and reading time of the focused section in the status indicator')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.indicatorDetails)
+				.onChange(async (value: FocusPluginSettings["indicatorDetails"]) => {
+					this.plugin.settings.indicatorDetails = value;
+					await this.plugin.saveSettings();
+					FocusPluginLogger.log('Debug', 'indicator details changed to ' + value);
+				}));
+
+		new Setting(containerEl)
+			.setName('Focus Trigger')
+			.setDesc('Which clicks focus a section. Text selections made by dragging never do.')
+			.addDropdown(dropdown => dropdown.addOptions({
+				'click': 'Click',
+				'modifier-click': 'Alt/Cmd + click',
+				'double-click': 'Double-click',
+				'command': 'Commands only'
+			})
+				.setValue(this.plugin.settings.focusTrigger)
+				.onChange(async (value: FocusPluginSettings["focusTrigger"]) => {
+					this.plugin.settings.focusTrigger = value;
+					await this.plugin.saveSettings();
+					FocusPluginLogger.log('Debug', 'focus trigger changed to ' + value);
+				}));
+
 		new Setting(containerEl)
 			.setName('Focus Sensitivity')
 			.setDesc("Focus only when the mouse is 'not' still for a while (larger means longer)")
@@ -425,5 +1586,91 @@ class FocusPluginSettingTab extends PluginSettingTab {
 					FocusPluginLogger.log('Debug', 'focus delay changed to ' + value);
 				}));
 
+		this.displayRules(containerEl);
+	}
+
+	private displayRules(containerEl: HTMLElement) {
+		containerEl.createEl('h3', { text: 'Rules' });
+		containerEl.createEl('p', {
+			text: 'Override the settings above for the notes of a folder or with a tag. Matching rules apply from top to bottom, then the frontmatter of the note, e.g. `focus: false` or `focus-scope: block`.',
+			cls: 'setting-item-description'
+		});
+
+		// The rules are replaced rather than mutated, the default value is shared
+		const updateRule = async (index: number, rule: FocusRule | null) => {
+			const rules = this.plugin.settings.rules.slice();
+			if (rule)
+				rules.splice(index, 1, rule);
+			else
+				rules.splice(index, 1);
+			this.plugin.settings.rules = rules;
+			await this.plugin.saveSettings();
+			FocusPluginLogger.log('Debug', 'rules changed to ' + JSON.stringify(rules));
+		};
+
+		const overrideLabels: { [K in keyof Required<FocusOverrides>]: string } = {
+			isEnabled: 'Focus',
+			clearMethod: 'Clear',
+			contentBehavior: 'Content',
+			focusScope: 'Scope',
+			focusGranularity: 'Granularity',
+			enableList: 'List'
+		};
+
+		this.plugin.settings.rules.forEach((rule, index) => {
+			const setting = new Setting(containerEl)
+				.addDropdown(dropdown => dropdown.addOptions({
+					'folder': 'Folder',
+					'tag': 'Tag'
+				})
+					.setValue(rule.kind)
+					.onChange(async (value: FocusRule["kind"]) => {
+						await updateRule(index, Object.assign({}, rule, { kind: value }));
+						this.display();
+					}))
+				.addText(text => text
+					.setPlaceholder(rule.kind === 'folder' ? 'Journal/Daily' : '#spec')
+					.setValue(rule.match)
+					.onChange(async (value: string) => {
+						rule = Object.assign({}, rule, { match: value });
+						await updateRule(index, rule);
+					}));
+
+			(Object.keys(OVERRIDE_VALUES) as Array<keyof FocusOverrides>).forEach(key => {
+				const options: Record<string, string> = { '': `${overrideLabels[key]}: default` };
+				(OVERRIDE_VALUES[key] as unknown[]).forEach(value => options[String(value)] = `${overrideLabels[key]}: ${value === true ? 'on' : value === false ? 'off' : value}`);
+
+				setting.addDropdown(dropdown => dropdown.addOptions(options)
+					.setValue(rule.overrides[key] === undefined ? '' : String(rule.overrides[key]))
+					.onChange(async (value: string) => {
+						const overrides = Object.assign({}, rule.overrides);
+						const override = (OVERRIDE_VALUES[key] as unknown[]).find(option => String(option) === value);
+						if (override === undefined)
+							delete overrides[key];
+						else
+							Object.assign(overrides, { [key]: override });
+						rule = Object.assign({}, rule, { overrides });
+						await updateRule(index, rule);
+					}));
+			});
+
+			setting.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Delete rule')
+				.onClick(async () => {
+					await updateRule(index, null);
+					this.display();
+				}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add rule')
+				.onClick(async () => {
+					const rule: FocusRule = { kind: 'folder', match: '', overrides: {} };
+					this.plugin.settings.rules = [...this.plugin.settings.rules, rule];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
 	}
 }
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Text } from '@codemirror/state';
+import { CachedMetadata, Loc, SectionCache } from 'obsidian';
+import { EditModeFocusInfo, EditModeFocusManager } from 'utils/editModeFocusManager';
+
+function loc(doc: Text, line: number, col: number): Loc {
+	return { line: line - 1, col, offset: doc.line(line).from + col };
+}
+
+// Section spanning 1-based lines of a document, as the metadata cache reports it
+function section(doc: Text, type: string, fromLine: number, toLine: number): SectionCache {
+	return { type, position: { start: loc(doc, fromLine, 0), end: loc(doc, toLine, doc.line(toLine).length) } };
+}
+
+// Metadata for `# A / one / two / (blank) / # B`, as cached before editing
+function createManager(doc: Text): EditModeFocusManager {
+	const metadata: CachedMetadata = {
+		sections: [section(doc, 'heading', 1, 1), section(doc, 'paragraph', 2, 3), section(doc, 'heading', 5, 5)],
+		headings: [
+			{ heading: 'A', level: 1, position: section(doc, 'heading', 1, 1).position },
+			{ heading: 'B', level: 1, position: section(doc, 'heading', 5, 5).position }
+		]
+	};
+	const manager = new EditModeFocusManager();
+	manager.setMetadata(metadata);
+	return manager;
+}
+
+describe('EditModeFocusManager', () => {
+	const doc = Text.of(['# A', 'one', 'two', '', '# B']);
+
+	it('reads the lines the metadata no longer matches from the document', () => {
+		const manager = createManager(doc);
+		const focusInfo = manager.getFocusInfoForLine(1, doc) as EditModeFocusInfo;
+		expect(focusInfo).toMatchObject({ type: 'heading', fromLine: 1, toLine: 4 });
+
+		// Paste two lines after "one", before the cache catches up
+		const edited = doc.replace(doc.line(2).to, doc.line(2).to, Text.of(['', 'pasted', 'lines']));
+		expect(manager.refreshFocusInfo(focusInfo, edited)).toMatchObject({ fromLine: 1, toLine: 6 });
+
+		// The cached paragraph now goes on past its cached end
+		manager.setIncludeBody(false);
+		expect(manager.getFocusInfoForLine(2, edited)).toMatchObject({ type: 'paragraph', fromLine: 2, toLine: 5 });
+	});
+
+	it('ends a section at a heading typed inside a cached paragraph', () => {
+		const manager = createManager(doc);
+		const edited = doc.replace(doc.line(3).from, doc.line(3).from, Text.of(['# X', '']));
+
+		expect(manager.getFocusInfoForLine(1, edited)).toMatchObject({ fromLine: 1, toLine: 2 });
+		expect(manager.getFocusInfoForLine(3, edited)).toMatchObject({ type: 'heading', fromLine: 3, toLine: 5 });
+	});
+});
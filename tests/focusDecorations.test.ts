@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { focusDecorationsPlugin, focusStateField, setFocusEffect } from 'utils/editModeFocusManager';
+
+const views: EditorView[] = [];
+
+// Build an editor showing a note of the given length
+function createView(lines: number): EditorView {
+	const doc = Array.from({ length: lines }, (_, i) => `Line ${i + 1} of a long meeting log`).join('\n');
+	const view = new EditorView({
+		state: EditorState.create({ doc, extensions: [focusStateField, focusDecorationsPlugin] }),
+		parent: document.body.appendChild(document.createElement('div'))
+	});
+	views.push(view);
+	return view;
+}
+
+// Focus a few lines near the top of the note, starting at the given line
+function focusLines(view: EditorView, fromLine: number) {
+	view.dispatch({ effects: setFocusEffect.of({ type: 'range', fromLine, toLine: fromLine + 2, anchor: view.state.doc.line(fromLine).from }) });
+}
+
+// Time moving the focus back and forth
+function timeFocusChanges(view: EditorView): number {
+	const start = performance.now();
+	for (let i = 0; i < 20; i++)
+		focusLines(view, 2 + i % 2 * 4);
+	return performance.now() - start;
+}
+
+function median(values: number[]): number {
+	const sorted = [...values].sort((a, b) => a - b);
+	return sorted[Math.floor(sorted.length / 2)];
+}
+
+afterEach(() => {
+	views.splice(0).forEach(view => {
+		view.dom.parentElement?.remove();
+		view.destroy();
+	});
+});
+
+describe('focusDecorationsPlugin', () => {
+	it('only decorates the visible lines', () => {
+		const small = createView(1000);
+		const large = createView(20000);
+		focusLines(small, 2);
+		focusLines(large, 2);
+
+		const smallCount = small.plugin(focusDecorationsPlugin)?.decorations.size ?? 0;
+		const largeCount = large.plugin(focusDecorationsPlugin)?.decorations.size ?? 0;
+		expect(smallCount).toBeGreaterThan(0);
+		expect(smallCount).toBeLessThan(1000);
+		expect(largeCount).toBe(smallCount);
+	});
+
+	it('keeps focus latency flat as the note grows', () => {
+		const small = createView(1000);
+		const large = createView(20000);
+
+		// Alternate the rounds after a warm-up, so that both sizes get the same JIT and garbage collection
+		const smallTimes: number[] = [];
+		const largeTimes: number[] = [];
+		timeFocusChanges(small);
+		timeFocusChanges(large);
+		for (let round = 0; round < 7; round++) {
+			smallTimes.push(timeFocusChanges(small));
+			largeTimes.push(timeFocusChanges(large));
+		}
+
+		// Decorating every line takes about five times as long here, leave room for timing noise
+		expect(median(largeTimes)).toBeLessThan(median(smallTimes) * 2);
+	});
+});
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { FocusHistory } from 'utils/focusHistory';
+
+describe('FocusHistory', () => {
+	it('records moving between sentences of the same line', () => {
+		const history = new FocusHistory();
+		history.push('note.md', { type: 'sentence', fromLine: 3, toLine: 3, from: 0, to: 10 });
+		history.push('note.md', { type: 'sentence', fromLine: 3, toLine: 3, from: 11, to: 22 });
+		history.push('note.md', { type: 'sentence', fromLine: 3, toLine: 3, from: 11, to: 22 });
+
+		expect(history.back('note.md')).toMatchObject({ from: 0, to: 10 });
+		expect(history.back('note.md')).toBeNull();
+		expect(history.forward('note.md')).toMatchObject({ from: 11, to: 22 });
+	});
+});
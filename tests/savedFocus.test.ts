@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { Text } from '@codemirror/state';
+import { EditModeFocusInfo, EditModeFocusManager } from 'utils/editModeFocusManager';
+import { fromSavedFocus, toSavedFocus } from 'utils/savedFocus';
+
+describe('savedFocus', () => {
+	it('restores the saved sentence rather than the first one of its line', () => {
+		const doc = Text.of(['Intro.', '', 'First one. Second one. Third one.']);
+		const manager = new EditModeFocusManager();
+		manager.setGranularity('sentence');
+		const third = doc.line(3).from + 'First one. Second one. '.length;
+		const focusInfo = manager.getFocusInfoForPosition(third, doc) as EditModeFocusInfo;
+
+		const restored = fromSavedFocus(toSavedFocus(focusInfo, null, doc), null, doc, manager);
+		expect(restored).toMatchObject({ type: 'sentence', from: focusInfo.from, to: focusInfo.to });
+		expect(doc.sliceString(restored?.from ?? 0, restored?.to ?? 0)).toBe('Third one.');
+	});
+});
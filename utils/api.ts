@@ -0,0 +1,41 @@
+import { MarkdownView, TFile } from 'obsidian';
+
+// Name of the workspace event triggered whenever the focus of a pane changes
+export const FOCUS_CHANGED_EVENT = 'focus-plugin:focus-changed';
+
+// A focused range of a note, lines are 1-based and inclusive
+export interface FocusRange {
+	fromLine: number;
+	toLine: number;
+	type: string;
+}
+
+// Payload of FOCUS_CHANGED_EVENT, range is null when the focus was cleared
+export interface FocusChangedEvent {
+	file: TFile;
+	view: MarkdownView;
+	range: FocusRange | null;
+}
+
+/**
+ * API available to other plugins and scripts as `app.plugins.plugins['obsidian-focus-plugin'].api`
+ */
+export interface FocusPluginApi {
+	/**
+	 * Focus a heading of a note shown in a pane, by its text or by the texts of its ancestors and itself
+	 */
+	focusHeading(file: TFile, headingPath: string | string[]): boolean;
+	/**
+	 * Focus a range of lines in a pane
+	 */
+	focusLines(view: MarkdownView, fromLine: number, toLine: number): boolean;
+	/**
+	 * Clear the focus of a pane, or of the active pane
+	 */
+	clear(view?: MarkdownView): void;
+	/**
+	 * Get the focused range of a pane
+	 */
+	getFocus(view: MarkdownView): FocusRange | null;
+	isEnabled(): boolean;
+}
@@ -1,32 +1,95 @@
-import { EditorView, Decoration, DecorationSet } from '@codemirror/view';
-import { StateField, StateEffect, RangeSetBuilder } from '@codemirror/state';
-import { CachedMetadata } from 'obsidian';
+import { EditorView, Decoration, DecorationSet, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import { StateField, StateEffect, RangeSetBuilder, Extension, Text, Facet, EditorState, Transaction } from '@codemirror/state';
+import { CachedMetadata, ListItemCache, Pos, SectionCache } from 'obsidian';
 import { FocusPluginLogger } from './log';
+import { SPOTLIGHT_STEPS } from './focusManager';
 
 // Types for focus information in edit mode
 export interface EditModeFocusInfo {
 	fromLine: number;
 	toLine: number;
-	type: 'heading' | 'paragraph' | 'list' | 'block';
+	type: 'heading' | 'paragraph' | 'list' | 'block' | 'sentence' | 'line' | 'range'; // range: arbitrary lines, never recomputed
 	level?: number; // For headings: 1-6
+	from?: number; // For sentences: character range inside fromLine..toLine
+	to?: number;
+	anchor: number; // Document position the focus was derived from, kept mapped through edits
 }
 
+export type EditModeFocusGranularity = 'section' | 'sentence' | 'line';
+
+// Settings deciding what gets focused, which may differ from note to note
+export interface EditModeFocusOptions {
+	includeBody: boolean;
+	granularity: EditModeFocusGranularity;
+	enableList: boolean;
+	contentBehavior: 'element' | 'content' | 'none';
+}
+
+// Section types focused as a whole, like elements in reading mode
+const BLOCK_SECTION_TYPES = ['code', 'callout', 'blockquote', 'table', 'math', 'yaml', 'html', 'comment'];
+
 // State effect to update focus
 export const setFocusEffect = StateEffect.define<EditModeFocusInfo | null>();
 
 // State effect to clear focus
 export const clearFocusEffect = StateEffect.define<null>();
 
-// Decoration for dimmed lines
-const dimmedLineMark = Decoration.line({
-	class: 'focus-plugin-dimmed-line'
+// State effect to recompute focus boundaries, e.g. after the metadata changed
+export const refreshFocusEffect = StateEffect.define<null>();
+
+// Facet recomputing the focus boundaries from the current document
+export const focusResolver = Facet.define<(state: EditorState, focusInfo: EditModeFocusInfo) => EditModeFocusInfo | null, ((state: EditorState, focusInfo: EditModeFocusInfo) => EditModeFocusInfo | null) | null>({
+	combine: values => values.length > 0 ? values[0] : null
 });
 
+// Number of lines per opacity step in spotlight mode
+const SPOTLIGHT_STEP_LINES = 4;
+
+// Decorations for dimmed lines, by their distance from the focus in spotlight steps
+const dimmedLineMarks = Array.from({ length: SPOTLIGHT_STEPS + 1 }, (_, step) => Decoration.line({
+	class: 'focus-plugin-dimmed-line',
+	attributes: { style: `--focus-plugin-distance: ${step / SPOTLIGHT_STEPS}` }
+}));
+
 // Decoration for focused lines (remove dimming if present)
 const focusedLineMark = Decoration.line({
 	class: 'focus-plugin-focused-line'
 });
 
+// Decoration for focused lines only partly focused (sentence focus)
+const partialLineMark = Decoration.line({
+	class: 'focus-plugin-focused-line focus-plugin-partial-line'
+});
+
+// Decoration for dimmed text inside a focused line (sentence focus)
+const dimmedTextMark = Decoration.mark({
+	class: 'focus-plugin-dimmed-text',
+	attributes: { style: `--focus-plugin-distance: ${1 / SPOTLIGHT_STEPS}` }
+});
+
+// Decoration for the focused text inside a focused line (sentence focus)
+const focusedTextMark = Decoration.mark({
+	class: 'focus-plugin-focused-text'
+});
+
+// Placeholder standing for the lines hidden around the focus
+class HiddenLinesWidget extends WidgetType {
+	constructor(readonly count: number) {
+		super();
+	}
+
+	eq(other: HiddenLinesWidget) {
+		return other.count === this.count;
+	}
+
+	toDOM() {
+		const el = document.createElement('div');
+		el.className = 'focus-plugin-hidden-lines';
+		el.textContent = `${this.count} line${this.count === 1 ? '' : 's'} hidden`;
+		return el;
+	}
+}
+
 // State field to track current focus
 export const focusStateField = StateField.define<EditModeFocusInfo | null>({
 	create() {
@@ -41,58 +104,235 @@ export const focusStateField = StateField.define<EditModeFocusInfo | null>({
 				return null;
 			}
 		}
+
+		if (!value) return value;
+
+		if (tr.docChanged)
+			value = mapFocusInfo(value, tr);
+
+		if (tr.docChanged || tr.effects.some(effect => effect.is(refreshFocusEffect))) {
+			const resolve = tr.state.facet(focusResolver);
+			if (resolve)
+				value = resolve(tr.state, value) ?? value;
+		}
 		return value;
 	}
 });
 
-// State field for decorations
-export const focusDecorationsField = StateField.define<DecorationSet>({
-	create() {
-		return Decoration.none;
-	},
-	update(decorations, tr) {
-		decorations = decorations.map(tr.changes);
-		
-		for (let effect of tr.effects) {
-			if (effect.is(setFocusEffect) || effect.is(clearFocusEffect)) {
-				const focusInfo = tr.state.field(focusStateField);
-				decorations = buildDecorations(tr.state.doc, focusInfo);
-			}
+// Map the focused range through document changes
+function mapFocusInfo(focusInfo: EditModeFocusInfo, tr: Transaction): EditModeFocusInfo {
+	const startDoc = tr.startState.doc;
+	const from = tr.changes.mapPos(startDoc.line(Math.min(focusInfo.fromLine, startDoc.lines)).from, -1);
+	// Text typed at the end of the focused range stays inside it
+	const to = tr.changes.mapPos(startDoc.line(Math.min(focusInfo.toLine, startDoc.lines)).to, 1);
+
+	return {
+		...focusInfo,
+		fromLine: tr.state.doc.lineAt(from).number,
+		toLine: tr.state.doc.lineAt(to).number,
+		from: focusInfo.from !== undefined ? tr.changes.mapPos(focusInfo.from, -1) : undefined,
+		to: focusInfo.to !== undefined ? tr.changes.mapPos(focusInfo.to, 1) : undefined,
+		anchor: tr.changes.mapPos(focusInfo.anchor)
+	};
+}
+
+// View plugin for decorations, only covering the visible part of the document
+export const focusDecorationsPlugin = ViewPlugin.fromClass(class {
+	decorations: DecorationSet;
+
+	constructor(view: EditorView) {
+		this.decorations = buildDecorations(view, view.state.field(focusStateField, false) ?? null);
+	}
+
+	update(update: ViewUpdate) {
+		const focusInfo = update.state.field(focusStateField, false) ?? null;
+		const previousFocusInfo = update.startState.field(focusStateField, false) ?? null;
+
+		// Rebuild on focus changes, and on edits or scrolling so that new lines get decorated too
+		if (focusInfo !== previousFocusInfo || (focusInfo && (update.docChanged || update.viewportChanged))) {
+			this.decorations = buildDecorations(update.view, focusInfo);
 		}
-		
-		return decorations;
-	},
-	provide: f => EditorView.decorations.from(f)
+	}
+}, {
+	decorations: plugin => plugin.decorations
+});
+
+// Hide the lines around the focus, like folding them. Replacing whole lines has to be
+// provided by the state rather than a view plugin, so this is computed from the focus field.
+export const focusFoldDecorations: Extension = EditorView.decorations.compute([focusStateField], state => {
+	const focusInfo = state.field(focusStateField, false);
+	if (!focusInfo) {
+		return Decoration.none;
+	}
+
+	const builder = new RangeSetBuilder<Decoration>();
+	const doc = state.doc;
+	if (focusInfo.fromLine > 1) {
+		builder.add(0, doc.line(focusInfo.fromLine - 1).to, Decoration.replace({
+			block: true,
+			widget: new HiddenLinesWidget(focusInfo.fromLine - 1)
+		}));
+	}
+	if (focusInfo.toLine < doc.lines) {
+		builder.add(doc.line(focusInfo.toLine + 1).from, doc.length, Decoration.replace({
+			block: true,
+			widget: new HiddenLinesWidget(doc.lines - focusInfo.toLine)
+		}));
+	}
+	return builder.finish();
 });
 
-// Build decorations based on focus info
-function buildDecorations(doc: any, focusInfo: EditModeFocusInfo | null): DecorationSet {
+// Listener notifying when the caret moves by keyboard, search or commands.
+// Pointer selections are left to the click handler.
+export function cursorFollower(onMove: (view: EditorView, pos: number) => void): Extension {
+	return EditorView.updateListener.of(update => {
+		if (!update.selectionSet) return;
+		if (update.transactions.some(tr => tr.isUserEvent('select.pointer'))) return;
+
+		onMove(update.view, update.state.selection.main.head);
+	});
+}
+
+// Listener notifying when the focus is set or cleared, but not when it follows edits
+// or when clearing an editor that had no focus
+export function focusChangeListener(onChange: (view: EditorView, focusInfo: EditModeFocusInfo | null) => void): Extension {
+	return EditorView.updateListener.of(update => {
+		const focusInfo = update.state.field(focusStateField, false) ?? null;
+		if (!focusInfo && !update.startState.field(focusStateField, false))
+			return;
+		const changed = update.transactions.some(tr => tr.effects.some(effect => effect.is(setFocusEffect) || effect.is(clearFocusEffect)));
+		if (changed)
+			onChange(update.view, focusInfo);
+	});
+}
+
+// Listener notifying when edits moved or resized the focus
+export function focusEditListener(onEdit: (view: EditorView, focusInfo: EditModeFocusInfo) => void): Extension {
+	return EditorView.updateListener.of(update => {
+		const focusInfo = update.state.field(focusStateField, false);
+		if (update.docChanged && focusInfo && focusInfo !== update.startState.field(focusStateField, false))
+			onEdit(update.view, focusInfo);
+	});
+}
+
+/**
+ * Find the sentence around the given offset, ending at terminal punctuation followed by whitespace
+ */
+export function getSentenceRange(text: string, offset: number): { from: number, to: number } {
+	const boundary = /[.!?\u2026]+["'\u201D\u2019\u00BB)\]]*\s+/g;
+	let from = 0;
+	let to = text.length;
+	let match: RegExpExecArray | null;
+	while ((match = boundary.exec(text)) !== null) {
+		const end = match.index + match[0].length;
+		if (end <= offset) {
+			from = end;
+		}
+		else {
+			to = match.index + match[0].replace(/\s+$/, '').length;
+			break;
+		}
+	}
+	return { from, to };
+}
+
+// Build decorations based on focus info, for the visible lines only
+function buildDecorations(view: EditorView, focusInfo: EditModeFocusInfo | null): DecorationSet {
 	if (!focusInfo) {
 		return Decoration.none;
 	}
 	
 	const builder = new RangeSetBuilder<Decoration>();
-	const totalLines = doc.lines;
+	const doc = view.state.doc;
+	let lastLine = 0;
 	
-	// Add dimmed decoration to all lines except focused ones
-	for (let i = 1; i <= totalLines; i++) {
-		const line = doc.line(i);
-		
-		if (i >= focusInfo.fromLine && i <= focusInfo.toLine) {
-			// This is a focused line - don't dim it
-			builder.add(line.from, line.from, focusedLineMark);
-		} else {
-			// Dim this line
-			builder.add(line.from, line.from, dimmedLineMark);
+	// Add dimmed decoration to all visible lines except focused ones
+	for (const range of view.visibleRanges) {
+		const toLine = doc.lineAt(range.to).number;
+		for (let i = Math.max(doc.lineAt(range.from).number, lastLine + 1); i <= toLine; i++) {
+			lastLine = i;
+			const line = doc.line(i);
+			
+			if (i >= focusInfo.fromLine && i <= focusInfo.toLine) {
+				if (focusInfo.from !== undefined && focusInfo.to !== undefined) {
+					// Dim the text around a focused sentence, and mark the sentence itself
+					builder.add(line.from, line.from, partialLineMark);
+					if (line.from < focusInfo.from)
+						builder.add(line.from, Math.min(line.to, focusInfo.from), dimmedTextMark);
+					if (Math.max(line.from, focusInfo.from) < Math.min(line.to, focusInfo.to))
+						builder.add(Math.max(line.from, focusInfo.from), Math.min(line.to, focusInfo.to), focusedTextMark);
+					if (line.to > focusInfo.to)
+						builder.add(Math.max(line.from, focusInfo.to), line.to, dimmedTextMark);
+				}
+				else {
+					// This is a focused line - don't dim it
+					builder.add(line.from, line.from, focusedLineMark);
+				}
+			} else {
+				// Dim this line, the more the farther it is
+				const distance = i < focusInfo.fromLine ? focusInfo.fromLine - i : i - focusInfo.toLine;
+				builder.add(line.from, line.from, dimmedLineMarks[Math.min(SPOTLIGHT_STEPS, Math.ceil(distance / SPOTLIGHT_STEP_LINES))]);
+			}
 		}
 	}
 	
 	return builder.finish();
 }
 
+const HEADING_LINE = /^#{1,6}\s/;
+const SETEXT_UNDERLINE = /^(=+|-+)\s*$/;
+const LIST_ITEM_LINE = /^\s*([-*+]|\d+[.)])(\s|$)/;
+
+// Whether a metadata position still points to the same lines and columns of the document
+function matchesDocument(position: Pos, doc: Text): boolean {
+	return [position.start, position.end].every(loc => {
+		if (loc.line >= doc.lines)
+			return false;
+		const line = doc.line(loc.line + 1);
+		return line.from + loc.col === loc.offset && loc.offset <= line.to;
+	});
+}
+
+// Whether the lines of a section still read as its type, e.g. no heading was typed inside a paragraph
+function matchesSectionType(sections: SectionCache[], index: number, doc: Text): boolean {
+	const section = sections[index];
+	const fromLine = section.position.start.line + 1;
+	const toLine = section.position.end.line + 1;
+	switch (section.type) {
+		case 'heading':
+			return HEADING_LINE.test(doc.line(fromLine).text) || (toLine > fromLine && SETEXT_UNDERLINE.test(doc.line(toLine).text));
+		case 'paragraph': {
+			for (let i = fromLine; i <= toLine; i++) {
+				const text = doc.line(i).text;
+				if (text.trim() === '' || HEADING_LINE.test(text))
+					return false;
+			}
+			// A paragraph ends before a blank line, a heading or the next section, otherwise lines were added to it
+			if (toLine === doc.lines)
+				return true;
+			const next = doc.line(toLine + 1).text;
+			return next.trim() === '' || HEADING_LINE.test(next) || sections[index + 1]?.position.start.line === toLine;
+		}
+		default:
+			return true;
+	}
+}
+
+// Metadata checked against a version of the document
+interface MetadataCheck {
+	metadata: CachedMetadata | null;
+	doc: Text;
+	sections: Map<SectionCache, boolean>;
+	listItems: ListItemCache[] | null;
+}
+
 export class EditModeFocusManager {
 	private metadata: CachedMetadata | null = null;
+	private check: MetadataCheck | null = null;
 	private includeBody: boolean = true;
+	private granularity: EditModeFocusGranularity = 'section';
+	private enableList = false;
+	private contentBehavior: 'element' | 'content' | 'none' = 'none';
 
 	setMetadata(metadata: CachedMetadata | null) {
 		this.metadata = metadata;
@@ -102,110 +342,238 @@ export class EditModeFocusManager {
 		this.includeBody = includeBody;
 	}
 
+	setGranularity(granularity: EditModeFocusGranularity) {
+		this.granularity = granularity;
+	}
+
+	setEnableList(enableList: boolean) {
+		this.enableList = enableList;
+	}
+
+	setContentBehavior(contentBehavior: 'element' | 'content' | 'none') {
+		this.contentBehavior = contentBehavior;
+	}
+
+	setOptions(options: EditModeFocusOptions) {
+		this.setIncludeBody(options.includeBody);
+		this.setGranularity(options.granularity);
+		this.setEnableList(options.enableList);
+		this.setContentBehavior(options.contentBehavior);
+	}
+
 	/**
-	 * Get focus info for a given line number
+	 * Get focus info for a given document position, according to the focus granularity.
+	 * Options, when given, replace the current ones, e.g. the settings of the note being edited.
+	 */
+	getFocusInfoForPosition(pos: number, doc: Text, options?: EditModeFocusOptions): EditModeFocusInfo | null {
+		if (options)
+			this.setOptions(options);
+		const lineNumber = doc.lineAt(pos).number;
+		switch (this.granularity) {
+			case 'sentence':
+				return this.getSentenceFocusInfo(pos, doc);
+			case 'line':
+				return this.getLineFocusInfo(lineNumber, doc);
+			default:
+				return this.getFocusInfoForLine(lineNumber, doc);
+		}
+	}
+
+	/**
+	 * Recompute the boundaries of a focus after the document or metadata changed.
+	 * Options, when given, replace the current ones, e.g. the settings of the note being edited.
 	 */
-	getFocusInfoForLine(lineNumber: number, doc: any): EditModeFocusInfo | null {
-		const line = doc.line(lineNumber);
-		const lineText = line.text;
+	refreshFocusInfo(focusInfo: EditModeFocusInfo, doc: Text, options?: EditModeFocusOptions): EditModeFocusInfo | null {
+		if (options)
+			this.setOptions(options);
+		const lineNumber = doc.lineAt(focusInfo.anchor).number;
+		switch (focusInfo.type) {
+			case 'heading': {
+				// The heading may have been removed, keep the mapped range then
+				const level = this.getHeadingLevel(lineNumber, doc);
+				return level !== null ? this.getHeadingFocusInfo(lineNumber, level, doc) : null;
+			}
+			case 'paragraph':
+			case 'block':
+				return this.getParagraphFocusInfo(lineNumber, doc);
+			case 'list':
+				return this.getListFocusInfo(lineNumber, doc);
+			case 'sentence':
+				return this.getSentenceFocusInfo(focusInfo.anchor, doc);
+			case 'line':
+				return this.getLineFocusInfo(lineNumber, doc);
+			default:
+				return null;
+		}
+	}
 
+	/**
+	 * Get focus info for a given line number
+	 */
+	getFocusInfoForLine(lineNumber: number, doc: Text): EditModeFocusInfo | null {
 		// Check if this line is a heading
-		const headingMatch = lineText.match(/^(#{1,6})\s+(.+)/);
-		if (headingMatch) {
-			const level = headingMatch[1].length;
-			return this.getHeadingFocusInfo(lineNumber, level);
+		const level = this.getHeadingLevel(lineNumber, doc);
+		if (level !== null) {
+			return this.getHeadingFocusInfo(lineNumber, level, doc);
+		}
+
+		// Check if this line belongs to a list item
+		if (this.enableList) {
+			const listInfo = this.getListFocusInfo(lineNumber, doc);
+			if (listInfo) {
+				return listInfo;
+			}
+		}
+
+		// Blocks such as callouts or code blocks are focused alone when only focusing elements
+		const paragraphInfo = this.getParagraphFocusInfo(lineNumber, doc);
+		if (paragraphInfo.type === 'block' && this.contentBehavior === 'element') {
+			return paragraphInfo;
 		}
 
 		// If no metadata available, just focus on the paragraph
 		if (!this.metadata) {
 			FocusPluginLogger.log('Debug', 'No metadata available for focus calculation');
-			return this.getParagraphFocusInfo(lineNumber, doc);
+			return paragraphInfo;
 		}
 
 		// Check if this line belongs to a heading's content
-		const headingInfo = this.findParentHeading(lineNumber);
+		const headingInfo = this.findParentHeading(lineNumber, doc);
 		if (headingInfo) {
 			if (this.includeBody) {
 				return headingInfo;
 			} else {
 				// Focus only on the paragraph
-				return this.getParagraphFocusInfo(lineNumber, doc);
+				return paragraphInfo;
 			}
 		}
 
 		// Default: focus on the current paragraph
-		return this.getParagraphFocusInfo(lineNumber, doc);
+		return paragraphInfo;
 	}
 
 	/**
-	 * Get focus info for a heading and its content
+	 * Get the check of the metadata against a document, starting over when either changed
 	 */
-	private getHeadingFocusInfo(headingLine: number, level: number): EditModeFocusInfo {
-		if (!this.metadata?.headings) {
-			return {
-				fromLine: headingLine,
-				toLine: headingLine,
-				type: 'heading',
-				level
-			};
+	private getCheck(doc: Text): MetadataCheck {
+		if (this.check?.doc !== doc || this.check.metadata !== this.metadata)
+			this.check = { metadata: this.metadata, doc, sections: new Map(), listItems: null };
+		return this.check;
+	}
+
+	/**
+	 * Find the metadata section covering a line, e.g. a code block or the frontmatter.
+	 * The cache lags behind edits, so sections that moved or changed since are ignored
+	 * and their lines read from the document.
+	 */
+	private getSectionAt(lineNumber: number, doc: Text): SectionCache | null {
+		const sections = this.metadata?.sections;
+		if (!sections) return null;
+
+		// Sections are sorted, metadata lines are 0-based
+		let low = 0;
+		let high = sections.length - 1;
+		while (low <= high) {
+			const middle = (low + high) >> 1;
+			const position = sections[middle].position;
+			if (position.end.line < lineNumber - 1)
+				low = middle + 1;
+			else if (position.start.line > lineNumber - 1)
+				high = middle - 1;
+			else
+				return this.isSectionCurrent(sections, middle, doc) ? sections[middle] : null;
 		}
+		return null;
+	}
 
-		// Find this heading in metadata
-		const headings = this.metadata.headings;
-		const currentHeadingIndex = headings.findIndex(h => h.position.start.line + 1 === headingLine);
-		
-		if (currentHeadingIndex === -1) {
-			return {
-				fromLine: headingLine,
-				toLine: headingLine,
-				type: 'heading',
-				level
-			};
+	private isSectionCurrent(sections: SectionCache[], index: number, doc: Text): boolean {
+		const checked = this.getCheck(doc).sections;
+		let current = checked.get(sections[index]);
+		if (current === undefined) {
+			current = matchesDocument(sections[index].position, doc) && matchesSectionType(sections, index, doc);
+			checked.set(sections[index], current);
+		}
+		return current;
+	}
+
+	/**
+	 * Get the list items of the metadata still matching the document
+	 */
+	private getListItems(doc: Text): ListItemCache[] {
+		const check = this.getCheck(doc);
+		if (!check.listItems) {
+			check.listItems = (this.metadata?.listItems || []).filter(item =>
+				matchesDocument(item.position, doc) && LIST_ITEM_LINE.test(doc.line(item.position.start.line + 1).text));
+		}
+		return check.listItems;
+	}
+
+	/**
+	 * Get the level of the heading starting on a line, or null if the line is not a heading.
+	 * Lines inside known sections are classified by the metadata, so that code blocks or
+	 * frontmatter are never taken for headings and setext headings are recognized.
+	 * Lines the metadata does not know about yet, e.g. while typing, are read from the document.
+	 */
+	private getHeadingLevel(lineNumber: number, doc: Text): number | null {
+		const section = this.getSectionAt(lineNumber, doc);
+		if (section) {
+			if (section.type !== 'heading' || section.position.start.line !== lineNumber - 1)
+				return null;
+			const heading = this.metadata?.headings?.find(h => h.position.start.line === lineNumber - 1);
+			if (heading)
+				return heading.level;
 		}
 
-		let toLine = headingLine;
+		const headingMatch = doc.line(lineNumber).text.match(/^(#{1,6})\s+/);
+		return headingMatch ? headingMatch[1].length : null;
+	}
+
+	/**
+	 * Get focus info for a heading and its content
+	 */
+	getHeadingFocusInfo(headingLine: number, level: number, doc: Text): EditModeFocusInfo {
+		// Setext headings span two lines
+		const section = this.getSectionAt(headingLine, doc);
+		let toLine = section?.type === 'heading' ? Math.min(section.position.end.line + 1, doc.lines) : headingLine;
 
 		if (this.includeBody) {
-			// Find the next heading of equal or higher level
-			for (let i = currentHeadingIndex + 1; i < headings.length; i++) {
-				if (headings[i].level <= level) {
-					toLine = headings[i].position.start.line; // Line before next heading
+			// Extend until the next heading of equal or higher level, or the end of document
+			toLine = doc.lines;
+			for (let i = headingLine + 1; i <= doc.lines; i++) {
+				const nextLevel = this.getHeadingLevel(i, doc);
+				if (nextLevel !== null && nextLevel <= level) {
+					toLine = i - 1; // Line before next heading
 					break;
 				}
 			}
-
-			// If no next heading found, extend to end of document
-			if (toLine === headingLine && this.metadata.sections && this.metadata.sections.length > 0) {
-				const lastSection = this.metadata.sections[this.metadata.sections.length - 1];
-				if (lastSection?.position?.end?.line !== undefined) {
-					toLine = lastSection.position.end.line + 1;
-				}
-			}
 		}
 
 		return {
 			fromLine: headingLine,
 			toLine,
 			type: 'heading',
-			level
+			level,
+			anchor: doc.line(headingLine).from
 		};
 	}
 
 	/**
-	 * Find the parent heading for a given line
+	 * Get focus info for a block linked by its id, e.g. [[Note#^id]]: the list item
+	 * or the section it marks, never its parent heading section
 	 */
-	private findParentHeading(lineNumber: number): EditModeFocusInfo | null {
-		if (!this.metadata?.headings) {
-			return null;
-		}
+	getBlockFocusInfo(lineNumber: number, doc: Text): EditModeFocusInfo {
+		return this.getListFocusInfo(lineNumber, doc) ?? this.getParagraphFocusInfo(lineNumber, doc);
+	}
 
-		const headings = this.metadata.headings;
-		
+	/**
+	 * Find the parent heading for a given line
+	 */
+	private findParentHeading(lineNumber: number, doc: Text): EditModeFocusInfo | null {
 		// Find the last heading before this line
-		for (let i = headings.length - 1; i >= 0; i--) {
-			const headingLine = headings[i].position.start.line + 1;
-			if (headingLine < lineNumber) {
-				return this.getHeadingFocusInfo(headingLine, headings[i].level);
+		for (let i = lineNumber - 1; i >= 1; i--) {
+			const level = this.getHeadingLevel(i, doc);
+			if (level !== null) {
+				return this.getHeadingFocusInfo(i, level, doc);
 			}
 		}
 
@@ -213,9 +581,92 @@ export class EditModeFocusManager {
 	}
 
 	/**
-	 * Get focus info for a paragraph (content between empty lines or headings)
+	 * Find the list item whose own lines cover a line
+	 */
+	private getListItemAt(lineNumber: number, doc: Text): ListItemCache | null {
+		const listItems = this.getListItems(doc);
+		return listItems.find(item => item.position.start.line <= lineNumber - 1 && item.position.end.line >= lineNumber - 1) ?? null;
+	}
+
+	/**
+	 * Get focus info for a list item and all of its nested items
+	 */
+	getListFocusInfo(lineNumber: number, doc: Text): EditModeFocusInfo | null {
+		const listItems = this.getListItems(doc);
+		const item = this.getListItemAt(lineNumber, doc);
+		if (!item) return null;
+
+		// Nested items directly follow their parent, and point to it by its line
+		const descendants = new Set([item.position.start.line]);
+		let toLine = item.position.end.line;
+		for (let i = listItems.indexOf(item) + 1; i < listItems.length && descendants.has(listItems[i].parent); i++) {
+			descendants.add(listItems[i].position.start.line);
+			toLine = Math.max(toLine, listItems[i].position.end.line);
+		}
+
+		const fromLine = item.position.start.line + 1;
+		return {
+			fromLine,
+			toLine: Math.min(toLine + 1, doc.lines),
+			type: 'list',
+			anchor: doc.line(fromLine).from
+		};
+	}
+
+	/**
+	 * Widen a list item focus to its parent item
+	 */
+	getParentListFocusInfo(focusInfo: EditModeFocusInfo, doc: Text): EditModeFocusInfo | null {
+		const item = this.getListItemAt(doc.lineAt(focusInfo.anchor).number, doc);
+		// Root items point to the start of their list with a negative number
+		if (!item || item.parent < 0) return null;
+		return this.getListFocusInfo(item.parent + 1, doc);
+	}
+
+	/**
+	 * Narrow a list item focus to the child item containing a position, or to the first child
+	 */
+	getChildListFocusInfo(focusInfo: EditModeFocusInfo, pos: number, doc: Text): EditModeFocusInfo | null {
+		const listItems = this.getListItems(doc);
+		const item = this.getListItemAt(doc.lineAt(focusInfo.anchor).number, doc);
+		if (!item) return null;
+
+		const children = listItems.filter(child => child.parent === item.position.start.line);
+		if (children.length === 0) return null;
+
+		const line = doc.lineAt(pos).number - 1;
+		const child = children.slice().reverse().find(child => child.position.start.line <= line) ?? children[0];
+		return this.getListFocusInfo(child.position.start.line + 1, doc);
+	}
+
+	/**
+	 * Get focus info for a single line
+	 */
+	private getLineFocusInfo(lineNumber: number, doc: Text): EditModeFocusInfo {
+		return {
+			fromLine: lineNumber,
+			toLine: lineNumber,
+			type: 'line',
+			anchor: doc.line(lineNumber).from
+		};
+	}
+
+	/**
+	 * Get focus info for a paragraph (content between empty lines or headings).
+	 * Sections known to the metadata, e.g. code blocks or tables, are never split
+	 * and are reported as blocks.
 	 */
-	private getParagraphFocusInfo(lineNumber: number, doc: any): EditModeFocusInfo {
+	private getParagraphFocusInfo(lineNumber: number, doc: Text): EditModeFocusInfo {
+		const section = this.getSectionAt(lineNumber, doc);
+		if (section) {
+			return {
+				fromLine: section.position.start.line + 1,
+				toLine: Math.min(section.position.end.line + 1, doc.lines),
+				type: BLOCK_SECTION_TYPES.includes(section.type) ? 'block' : 'paragraph',
+				anchor: doc.line(lineNumber).from
+			};
+		}
+
 		let fromLine = lineNumber;
 		let toLine = lineNumber;
 
@@ -225,7 +676,7 @@ export class EditModeFocusManager {
 			const lineText = line.text.trim();
 			
 			// Stop at empty lines or headings
-			if (lineText === '' || lineText.match(/^#{1,6}\s+/)) {
+			if (lineText === '' || this.getHeadingLevel(i, doc) !== null) {
 				break;
 			}
 			fromLine = i;
@@ -237,7 +688,7 @@ export class EditModeFocusManager {
 			const lineText = line.text.trim();
 			
 			// Stop at empty lines or headings
-			if (lineText === '' || lineText.match(/^#{1,6}\s+/)) {
+			if (lineText === '' || this.getHeadingLevel(i, doc) !== null) {
 				break;
 			}
 			toLine = i;
@@ -246,28 +697,80 @@ export class EditModeFocusManager {
 		return {
 			fromLine,
 			toLine,
-			type: 'paragraph'
+			type: 'paragraph',
+			anchor: doc.line(lineNumber).from
+		};
+	}
+
+	/**
+	 * Get focus info for the sentence around a position, within its paragraph
+	 */
+	private getSentenceFocusInfo(pos: number, doc: Text): EditModeFocusInfo {
+		const paragraph = this.getParagraphFocusInfo(doc.lineAt(pos).number, doc);
+		if (paragraph.type === 'block') return paragraph;
+
+		const paragraphFrom = doc.line(paragraph.fromLine).from;
+		const text = doc.sliceString(paragraphFrom, doc.line(paragraph.toLine).to);
+		const sentence = getSentenceRange(text, pos - paragraphFrom);
+
+		// Skip the indentation or line break before the sentence
+		const indent = (text.slice(sentence.from).match(/^\s*/) as RegExpMatchArray)[0].length;
+		const from = paragraphFrom + sentence.from + indent;
+		const to = paragraphFrom + sentence.to;
+
+		return {
+			fromLine: doc.lineAt(from).number,
+			toLine: doc.lineAt(to).number,
+			type: 'sentence',
+			from,
+			to,
+			anchor: pos
 		};
 	}
 
 	/**
-	 * Apply focus to editor view
+	 * Recompute the focus of an editor view, e.g. after the metadata of its file changed
 	 */
-	applyFocus(view: EditorView, focusInfo: EditModeFocusInfo) {
+	refreshFocus(view: EditorView) {
+		if (!view.state.field(focusStateField, false)) return;
 		view.dispatch({
-			effects: setFocusEffect.of(focusInfo)
+			effects: refreshFocusEffect.of(null)
 		});
 	}
 
+	/**
+	 * Apply focus to editor view, optionally scrolling the focused range into view
+	 */
+	applyFocus(view: EditorView, focusInfo: EditModeFocusInfo, scroll = false) {
+		const effects: StateEffect<unknown>[] = [setFocusEffect.of(focusInfo)];
+		if (scroll) {
+			const from = view.state.doc.line(focusInfo.fromLine).from;
+			effects.push(EditorView.scrollIntoView(from, { y: 'start' }));
+		}
+		view.dispatch({ effects });
+	}
+
 	/**
 	 * Clear focus from editor view
 	 */
 	clearFocus(view: EditorView) {
+		if (!view.state.field(focusStateField, false)) return;
 		view.dispatch({
 			effects: clearFocusEffect.of(null)
 		});
 	}
 
+	/**
+	 * Check if a document position is currently focused
+	 */
+	isPositionFocused(view: EditorView, pos: number): boolean {
+		const focusInfo = view.state.field(focusStateField, false);
+		if (!focusInfo) return false;
+		if (focusInfo.from !== undefined && focusInfo.to !== undefined)
+			return pos >= focusInfo.from && pos <= focusInfo.to;
+		return this.isLineFocused(view, view.state.doc.lineAt(pos).number);
+	}
+
 	/**
 	 * Check if a line is currently focused
 	 */
@@ -0,0 +1,111 @@
+import { CachedMetadata } from 'obsidian';
+import { FocusInfoBase, getHeaderFocusInfoByName, isHeaderFocusInfo, isListFocusInfo, ListFocusInfo, IntermediateFocusInfo } from 'utils/info';
+import { EditModeFocusInfo, EditModeFocusManager } from 'utils/editModeFocusManager';
+import { getBlockLine, getHeadingOccurrence } from 'utils/navigation';
+import { Pane } from 'utils/paneRegistry';
+
+// A rendered block of the reading view and the source lines (0-based) it comes from
+interface PreviewSection {
+	el: HTMLElement;
+	lineStart: number;
+	lineEnd: number;
+}
+
+function getPreviewSections(pane: Pane): PreviewSection[] {
+	// @ts-ignore - accessing internal preview renderer
+	return pane.view.previewMode?.renderer?.sections || [];
+}
+
+/**
+ * Get the source lines (0-based) of a rendered block in reading mode
+ */
+export function getBlockLines(pane: Pane, block: Element, metadata: CachedMetadata): { start: number, end: number } | null {
+	const section = getPreviewSections(pane).find(section => section.el === block);
+	if (section)
+		return { start: section.lineStart, end: section.lineEnd };
+
+	// Fall back to the heading the block belongs to
+	const line = getBlockLine(pane.head, block, metadata.headings || []);
+	return line !== null ? { start: line, end: line } : null;
+}
+
+/**
+ * Get the rendered block of a source line (0-based) in reading mode
+ */
+export function getLineBlock(pane: Pane, line: number): Element | null {
+	const section = getPreviewSections(pane).find(section => section.lineStart <= line && line <= section.lineEnd);
+	if (!section || section.el.parentElement !== pane.head)
+		return null;
+	return section.el;
+}
+
+/**
+ * Convert a reading mode focus into the equivalent edit mode focus
+ */
+export function toEditModeFocusInfo(pane: Pane, info: FocusInfoBase, metadata: CachedMetadata, manager: EditModeFocusManager): EditModeFocusInfo | null {
+	if (!pane.editorView)
+		return null;
+
+	const doc = pane.editorView.state.doc;
+	const lines = getBlockLines(pane, info.block, metadata);
+	if (lines === null || lines.start >= doc.lines)
+		return null;
+
+	manager.setMetadata(metadata);
+	if (isHeaderFocusInfo(info))
+		return manager.getHeadingFocusInfo(lines.start + 1, parseInt(info.type.slice(1)), doc);
+
+	if (isListFocusInfo(info)) {
+		// List items are rendered in source order
+		const index = Array.from(info.block.querySelectorAll('li')).indexOf(info.target as HTMLLIElement);
+		const item = (metadata.listItems || []).filter(item => item.position.start.line >= lines.start && item.position.end.line <= lines.end)[index];
+		if (item)
+			return manager.getListFocusInfo(item.position.start.line + 1, doc);
+	}
+
+	return manager.getFocusInfoForLine(lines.start + 1, doc);
+}
+
+/**
+ * Convert an edit mode focus into the equivalent reading mode focus
+ */
+export function toReadingFocusInfo(pane: Pane, info: EditModeFocusInfo, metadata: CachedMetadata, includeMetadata: boolean): FocusInfoBase | null {
+	const line = info.fromLine - 1;
+
+	if (info.type === 'heading') {
+		const headings = metadata.headings || [];
+		const heading = headings.find(heading => heading.position.start.line === line);
+		if (heading)
+			return getHeaderFocusInfoByName(pane.head, heading.heading, getHeadingOccurrence(headings, heading));
+	}
+
+	const block = getLineBlock(pane, line);
+	if (block === null)
+		return null;
+
+	if (info.type === 'list') {
+		// List items are rendered in source order
+		const lines = getBlockLines(pane, block, metadata);
+		const items = (metadata.listItems || []).filter(item => lines !== null && item.position.start.line >= lines.start && item.position.end.line <= lines.end);
+		const index = items.findIndex(item => item.position.start.line === line);
+		const target = block.querySelectorAll('li')[index];
+		if (target) {
+			const listInfo: ListFocusInfo = {
+				block,
+				type: 'LI',
+				target
+			};
+			return listInfo;
+		}
+	}
+
+	const intermediateInfo: IntermediateFocusInfo = {
+		block,
+		type: 'UNKNOWN',
+		before: new Set(),
+		after: new Set(),
+		metadata: includeMetadata ? metadata : null,
+		level: null
+	};
+	return intermediateInfo;
+}
@@ -0,0 +1,49 @@
+import { SavedFocus } from 'utils/savedFocus';
+
+const MAX_ENTRIES = 100;
+
+// Sentences on the same lines are told apart by their offsets
+function isSameFocus(a: SavedFocus, b: SavedFocus): boolean {
+	return a.type === b.type && a.fromLine === b.fromLine && a.toLine === b.toLine && a.from === b.from && a.to === b.to;
+}
+
+// Back and forward stack of the focuses applied to a note in a pane
+export class FocusHistory {
+	private path: string | null = null;
+	private entries: SavedFocus[] = [];
+	private index = -1;
+
+	/**
+	 * Record a focus, dropping the entries ahead of the current one.
+	 * Opening another note starts a new history.
+	 */
+	push(path: string, focus: SavedFocus) {
+		if (path !== this.path) {
+			this.path = path;
+			this.entries = [];
+			this.index = -1;
+		}
+
+		const current = this.entries[this.index];
+		if (current && isSameFocus(current, focus))
+			return;
+
+		this.entries.splice(this.index + 1);
+		this.entries.push(focus);
+		if (this.entries.length > MAX_ENTRIES)
+			this.entries.shift();
+		this.index = this.entries.length - 1;
+	}
+
+	back(path: string): SavedFocus | null {
+		if (path !== this.path || this.index <= 0)
+			return null;
+		return this.entries[--this.index];
+	}
+
+	forward(path: string): SavedFocus | null {
+		if (path !== this.path || this.index >= this.entries.length - 1)
+			return null;
+		return this.entries[++this.index];
+	}
+}
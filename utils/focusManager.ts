@@ -2,16 +2,30 @@ import { FocusPluginLogger } from 'utils/log'
 import { CachedMetadata } from 'obsidian';
 import { FocusInfoBase, HeaderFocusInfo, ListFocusInfo, IntermediateFocusInfo, isHeaderFocusInfo, isListFocusInfo, isIntermediateFocusInfo } from 'utils/info';
 
+// How the focused range stands out: by altering the rest of the note, or by highlighting the range itself
+export type FocusEffect = 'dim' | 'blur' | 'grayscale' | 'hide' | 'highlight';
+
+// Number of opacity steps between the focus and fully dimmed content in spotlight mode
+export const SPOTLIGHT_STEPS = 5;
 
 export class FocusManager {
     paneInfo: WeakMap<Element, FocusInfoBase> = new WeakMap();
+    // panes holding a focus, so that clearing all of them can notify each one
+    focusedPanes: Set<Element> = new Set();
     classes: { [key: string]: string } = {
         'enabled': 'focus-plugin-enabled',
         'dimmed': 'focus-plugin-dimmed',
+        'focused': 'focus-plugin-focused',
+        'spotlight': 'focus-plugin-spotlight',
         'focus-animation': 'focus-plugin-focus-animation',
         'dim-animation': 'focus-plugin-dim-animation'
     }
     includeBody: boolean = true;
+    effect: FocusEffect = 'dim';
+    spotlight = false;
+    enabled = false;
+    documents: Set<Document> = new Set([document]);
+    listeners: Array<(pane: Element, info: FocusInfoBase | undefined) => void> = [];
     observer: MutationObserver = new MutationObserver((mutations) => {
         mutations.forEach(mutation => {
             if (mutation.addedNodes.length > 0) {
@@ -36,7 +50,44 @@ export class FocusManager {
 
     init() {
         this.clearAll();
-        document.body.classList.add(this.classes['enabled']);
+        this.enabled = true;
+        this.documents.forEach(doc => doc.body.classList.add(...this.getBodyClasses()));
+    }
+
+    addDocument(doc: Document) {
+        this.documents.add(doc);
+        if (this.enabled)
+            doc.body.classList.add(...this.getBodyClasses());
+    }
+
+    setEffect(effect: FocusEffect) {
+        this.updateBodyClasses(() => this.effect = effect);
+    }
+
+    setSpotlight(spotlight: boolean) {
+        this.updateBodyClasses(() => this.spotlight = spotlight);
+    }
+
+    private getBodyClasses(): Array<string> {
+        const classes = [this.classes['enabled'], `focus-plugin-effect-${this.effect}`];
+        if (this.spotlight)
+            classes.push(this.classes['spotlight']);
+        return classes;
+    }
+
+    private updateBodyClasses(update: () => void) {
+        const previous = this.getBodyClasses();
+        update();
+        if (this.enabled) {
+            this.documents.forEach(doc => {
+                doc.body.classList.remove(...previous);
+                doc.body.classList.add(...this.getBodyClasses());
+            });
+        }
+    }
+
+    removeDocument(doc: Document) {
+        this.documents.delete(doc);
     }
 
     private dim(elements: Array<Element>, animation: boolean) {
@@ -75,6 +126,33 @@ export class FocusManager {
         dimmed_elements.forEach(element => element.classList.remove(this.classes['dimmed']));
     }
 
+    // mark the focused elements of a pane, for effects styling the focus rather than the rest
+    private mark(pane: Element, elements: Array<Element>) {
+        this.unmark(pane);
+        elements.forEach(element => element.classList.add(this.classes['focused']));
+        this.grade(pane, elements);
+    }
+
+    // record how far each dimmed block is from the focus, for spotlight mode
+    private grade(pane: Element, focused: Array<Element>) {
+        const children = Array.from(pane.children || []);
+        const focusedIndices: Array<number> = [];
+        children.forEach((child, index) => {
+            if (focused.some(element => child.contains(element)))
+                focusedIndices.push(index);
+        });
+        children.forEach((child, index) => {
+            if (!child.classList.contains(this.classes['dimmed']))
+                return;
+            const distance = Math.min(SPOTLIGHT_STEPS, ...focusedIndices.map(focusedIndex => Math.abs(index - focusedIndex)));
+            (child as HTMLElement).style.setProperty('--focus-plugin-distance', `${distance / SPOTLIGHT_STEPS}`);
+        });
+    }
+
+    private unmark(root: Element | Document) {
+        root.querySelectorAll(`.${this.classes['focused']}`).forEach(element => element.classList.remove(this.classes['focused']));
+    }
+
     private process(pane: Element, info: FocusInfoBase, animation: boolean) {
         // undim block
         if (isHeaderFocusInfo(info)) {
@@ -116,13 +194,25 @@ export class FocusManager {
             });
             this.undim([...info.body, ...info.content], animation);
             this.dim(Array.from(pane.children || []).filter(element => (element !== info.block) && !info.body.has(element) && !(info.content.has(element))), animation);
+            this.mark(pane, [info.block, ...info.body, ...info.content]);
         }
         else if (isListFocusInfo(info)) {
+            // dim siblings at every level, keeping the ancestors as context
+            const siblings: Array<Element> = [];
+            let cursor: Element | null = info.target;
+            while (cursor !== null && cursor !== info.block) {
+                const item: Element = cursor;
+                if (item.tagName === 'LI')
+                    siblings.push(...Array.from(item.parentElement?.children || []).filter(element => element !== item));
+                cursor = item.parentElement;
+            }
+            // undim what a previous focus dimmed in the same block
+            this.undim(Array.from(info.block.querySelectorAll(`.${this.classes['dimmed']}`)).filter(element => !siblings.includes(element)), animation, false);
             // undim target
             this.undim([info.target], animation);
-            // dim siblings
-            this.dim(Array.from(info.target.parentElement?.children || []).filter(element => (element !== info.target)), animation);
+            this.dim(siblings, animation);
             this.dim(Array.from(pane.children || []).filter(element => (element !== info.block)), animation);
+            this.mark(pane, [info.target]);
         }
     }
         
@@ -190,6 +280,7 @@ export class FocusManager {
         
         // dim siblings
         this.dim(Array.from(pane.children || []).filter(element => element !== info.block && !info.before.has(element) && !info.after.has(element)), animation);
+        this.mark(pane, [info.block, ...info.before, ...info.after]);
         return false
     }
 
@@ -215,15 +306,18 @@ export class FocusManager {
     }
 
     focus(pane: Element, info: FocusInfoBase) {
+        let redirected = false;
 
         if (isIntermediateFocusInfo(info)) {
             if (info.metadata === null) {
                 this.undim([info.block], true);
                 this.dim(Array.from(info.block.parentElement?.children || []).filter(element => (element !== info.block)), true);
+                this.mark(pane, [info.block]);
                 this.paneInfo.set(pane, info);
             }
             else {
-                if (!this.processIntermediate(pane, info))
+                redirected = this.processIntermediate(pane, info);
+                if (!redirected)
                     this.paneInfo.set(pane, info);
             }
         }
@@ -232,6 +326,25 @@ export class FocusManager {
             this.paneInfo.set(pane, info);
         }
         this.observer.observe(pane, { childList: true });
+        // forget the panes closed meanwhile
+        this.focusedPanes.forEach(focusedPane => {
+            if (!focusedPane.isConnected)
+                this.focusedPanes.delete(focusedPane);
+        });
+        this.focusedPanes.add(pane);
+
+        // a redirected focus has already notified through its own call
+        if (!redirected)
+            this.notify(pane);
+    }
+
+    onChange(listener: (pane: Element, info: FocusInfoBase | undefined) => void) {
+        this.listeners.push(listener);
+    }
+
+    private notify(pane: Element) {
+        const info = this.paneInfo.get(pane);
+        this.listeners.forEach(listener => listener(pane, info));
     }
 
     changePane(pane: Element) {
@@ -246,16 +359,27 @@ export class FocusManager {
 
     clear(pane: Element, animation: boolean = true) {
         this.undim(Array.from(pane.querySelectorAll(`.${this.classes['dimmed']}`)), animation);
-        this.paneInfo.delete(pane);
+        this.unmark(pane);
+        this.focusedPanes.delete(pane);
+        if (this.paneInfo.delete(pane))
+            this.notify(pane);
     }
 
     clearAll(animation: boolean = false) {
-        this.undim(Array.from(document.querySelectorAll(`.${this.classes['dimmed']}`)), animation);
+        this.documents.forEach(doc => {
+            this.undim(Array.from(doc.querySelectorAll(`.${this.classes['dimmed']}`)), animation);
+            this.unmark(doc);
+        });
         this.paneInfo = new WeakMap();
+
+        const panes = Array.from(this.focusedPanes);
+        this.focusedPanes.clear();
+        panes.filter(pane => pane.isConnected).forEach(pane => this.notify(pane));
     }
 
     destroy() {
         this.clearAll();
-        document.body.classList.remove(this.classes['enabled']);
+        this.enabled = false;
+        this.documents.forEach(doc => doc.body.classList.remove(...this.getBodyClasses()));
     }
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { CachedMetadata, TFile, getAllTags, parseFrontMatterEntry } from 'obsidian';
+import { EditModeFocusGranularity } from 'utils/editModeFocusManager';
+
+// Settings a rule or the frontmatter of a note can override, unset ones are inherited
+export interface FocusOverrides {
+	isEnabled?: boolean;
+	clearMethod?: 'click-again' | 'click-outside';
+	contentBehavior?: 'element' | 'content' | 'none';
+	focusScope?: 'block' | 'content';
+	focusGranularity?: EditModeFocusGranularity;
+	enableList?: boolean;
+}
+
+// Overrides applying to the notes of a folder, or to the notes with a tag
+export interface FocusRule {
+	kind: 'folder' | 'tag';
+	match: string;
+	overrides: FocusOverrides;
+}
+
+// Values accepted for each override, also used to build the settings UI
+export const OVERRIDE_VALUES: { [K in keyof Required<FocusOverrides>]: Array<FocusOverrides[K]> } = {
+	isEnabled: [true, false],
+	clearMethod: ['click-again', 'click-outside'],
+	contentBehavior: ['element', 'content', 'none'],
+	focusScope: ['block', 'content'],
+	focusGranularity: ['section', 'sentence', 'line'],
+	enableList: [true, false]
+};
+
+// Frontmatter keys of each override, e.g. `focus: false` or `focus-scope: block`
+const FRONTMATTER_KEYS: { [K in keyof Required<FocusOverrides>]: string } = {
+	isEnabled: 'focus',
+	clearMethod: 'focus-clear-method',
+	contentBehavior: 'focus-content-behavior',
+	focusScope: 'focus-scope',
+	focusGranularity: 'focus-granularity',
+	enableList: 'focus-list'
+};
+
+function matchesRule(rule: FocusRule, file: TFile, tags: string[]): boolean {
+	const match = rule.match.trim().toLowerCase();
+	if (rule.kind === 'folder') {
+		const folder = match.replace(/^\/+|\/+$/g, '');
+		return folder === '' || file.path.toLowerCase().startsWith(folder + '/');
+	}
+
+	// Nested tags match their parents, e.g. #project/alpha matches #project
+	const tag = match.replace(/^#/, '');
+	return tag !== '' && tags.some(noteTag => noteTag === tag || noteTag.startsWith(tag + '/'));
+}
+
+/**
+ * Read the overrides set in the frontmatter of a note, ignoring unknown values
+ */
+export function getFrontmatterOverrides(metadata: CachedMetadata | null): FocusOverrides {
+	const overrides: FocusOverrides = {};
+	if (!metadata?.frontmatter)
+		return overrides;
+
+	(Object.keys(FRONTMATTER_KEYS) as Array<keyof FocusOverrides>).forEach(key => {
+		const value = parseFrontMatterEntry(metadata.frontmatter, FRONTMATTER_KEYS[key]);
+		if ((OVERRIDE_VALUES[key] as unknown[]).includes(value))
+			Object.assign(overrides, { [key]: value });
+	});
+	return overrides;
+}
+
+/**
+ * Resolve the overrides of a note: the matching rules in order, then its frontmatter
+ */
+export function resolveOverrides(rules: FocusRule[], file: TFile, metadata: CachedMetadata | null): FocusOverrides {
+	const tags = (metadata ? getAllTags(metadata) || [] : []).map(tag => tag.replace(/^#/, '').toLowerCase());
+	const overrides: FocusOverrides = {};
+	rules.filter(rule => matchesRule(rule, file, tags)).forEach(rule => Object.assign(overrides, rule.overrides));
+	return Object.assign(overrides, getFrontmatterOverrides(metadata));
+}
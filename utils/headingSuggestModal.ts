@@ -0,0 +1,40 @@
+import { App, HeadingCache, SuggestModal, prepareFuzzySearch } from 'obsidian';
+import { getHeadingPath } from 'utils/navigation';
+
+interface HeadingSuggestion {
+	heading: HeadingCache;
+	path: string[];
+}
+
+// Picker listing the headings of a note, matched fuzzily against their heading path
+export class HeadingSuggestModal extends SuggestModal<HeadingSuggestion> {
+	private suggestions: HeadingSuggestion[];
+	private onChoose: (heading: HeadingCache) => void;
+
+	constructor(app: App, headings: HeadingCache[], onChoose: (heading: HeadingCache) => void, placeholder = 'Focus heading...') {
+		super(app);
+		this.suggestions = headings.map(heading => ({ heading, path: getHeadingPath(headings, heading) }));
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getSuggestions(query: string): HeadingSuggestion[] {
+		if (!query)
+			return this.suggestions;
+
+		const search = prepareFuzzySearch(query);
+		return this.suggestions.filter(suggestion => search(suggestion.path.join(' > ')) !== null);
+	}
+
+	renderSuggestion(suggestion: HeadingSuggestion, el: HTMLElement) {
+		el.addClass('focus-plugin-heading-suggestion');
+		el.style.setProperty('--focus-plugin-heading-level', `${suggestion.heading.level - 1}`);
+		el.createDiv({ text: suggestion.heading.heading });
+		if (suggestion.path.length > 1)
+			el.createEl('small', { text: suggestion.path.slice(0, -1).join(' > '), cls: 'focus-plugin-heading-path' });
+	}
+
+	onChooseSuggestion(suggestion: HeadingSuggestion) {
+		this.onChoose(suggestion.heading);
+	}
+}
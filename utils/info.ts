@@ -55,13 +55,18 @@ export function getFocusInfo(el: Element): HeaderFocusInfo | ListFocusInfo | Int
             focusType = cursor.tagName;
         }
         else if (cursor.tagName === 'LI') {
+            // Focus the innermost list item, nested lists are handled by the focus manager
             focusType = 'LI';
-            focusTarget = cursor;
+            focusTarget = focusTarget ?? cursor;
         }
-        else if (cursor.hasClass('heading-collapse-indicator')) {
+        else if (cursor.hasClass('heading-collapse-indicator') || cursor.hasClass('list-collapse-indicator')) {
             // Click on collapse indicator, skipping
             return null;
         }
+        else if (cursor.hasClass('task-list-item-checkbox')) {
+            // Click on task checkbox, skipping
+            return null;
+        }
 
         if (cursor.parentElement?.hasClass('markdown-preview-section')) {
             focusBlock = cursor;
@@ -100,4 +105,50 @@ export function getFocusInfo(el: Element): HeaderFocusInfo | ListFocusInfo | Int
     else
         FocusPluginLogger.log('Error', `Unexpected focus type: ${focusType}`);
         return null;
-}
\ No newline at end of file
+}
+
+export function isHeadingBlock(block: Element): boolean {
+    return !!block.firstElementChild?.tagName.match(/^H[1-6]$/);
+}
+
+export function getHeadingName(block: Element): string | null {
+    return block.firstElementChild?.getAttribute('data-heading') ?? null;
+}
+
+export function getHeaderFocusInfoByName(pane: Element, heading: string, occurrence = 0): HeaderFocusInfo | null {
+    let count = 0;
+    for (const block of Array.from(pane.children)) {
+        if (!isHeadingBlock(block) || getHeadingName(block) !== heading)
+            continue;
+        if (count++ === occurrence)
+            return {
+                block: block,
+                type: (block.firstElementChild as Element).tagName,
+                body: new Set(),
+                content: new Set()
+            }
+    }
+    return null;
+}
+
+export function getParentListFocusInfo(info: ListFocusInfo): ListFocusInfo | null {
+    const parent = info.target.parentElement?.closest('li');
+    if (!parent || !info.block.contains(parent))
+        return null;
+    return {
+        block: info.block,
+        type: 'LI',
+        target: parent
+    }
+}
+
+export function getChildListFocusInfo(info: ListFocusInfo): ListFocusInfo | null {
+    const child = info.target.querySelector('li');
+    if (!child)
+        return null;
+    return {
+        block: info.block,
+        type: 'LI',
+        target: child
+    }
+}
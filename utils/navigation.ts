@@ -0,0 +1,136 @@
+import { HeadingCache } from 'obsidian';
+import { getHeadingName, isHeadingBlock } from 'utils/info';
+
+export type NavigationDirection = 'next' | 'previous' | 'parent' | 'child' | 'next-sibling' | 'previous-sibling';
+
+/**
+ * Find the index of the heading whose section contains the given line (0-based)
+ */
+export function findHeadingIndexAtLine(headings: HeadingCache[], line: number): number {
+	for (let i = headings.length - 1; i >= 0; i--) {
+		if (headings[i].position.start.line <= line)
+			return i;
+	}
+	return -1;
+}
+
+/**
+ * Find the heading to focus when moving from the given line (0-based) in a direction
+ */
+export function getNavigationTarget(headings: HeadingCache[], line: number, direction: NavigationDirection): HeadingCache | null {
+	const currentIndex = findHeadingIndexAtLine(headings, line);
+	const current = currentIndex !== -1 ? headings[currentIndex] : null;
+	const onHeading = current !== null && current.position.start.line === line;
+
+	switch (direction) {
+		case 'next':
+			return headings[currentIndex + 1] ?? null;
+		case 'previous':
+			if (!onHeading)
+				return current;
+			return headings[currentIndex - 1] ?? null;
+		case 'parent':
+			if (current === null)
+				return null;
+			if (!onHeading)
+				return current;
+			for (let i = currentIndex - 1; i >= 0; i--) {
+				if (headings[i].level < current.level)
+					return headings[i];
+			}
+			return null;
+		case 'next-sibling':
+			if (current === null)
+				return headings[0] ?? null;
+			for (let i = currentIndex + 1; i < headings.length; i++) {
+				if (headings[i].level <= current.level)
+					return headings[i].level === current.level ? headings[i] : null;
+			}
+			return null;
+		case 'previous-sibling':
+			if (current === null)
+				return null;
+			if (!onHeading)
+				return current;
+			for (let i = currentIndex - 1; i >= 0; i--) {
+				if (headings[i].level <= current.level)
+					return headings[i].level === current.level ? headings[i] : null;
+			}
+			return null;
+		case 'child': {
+			const candidate = headings[currentIndex + 1];
+			if (!candidate)
+				return null;
+			if (current === null || candidate.level > current.level)
+				return candidate;
+			return null;
+		}
+	}
+}
+
+/**
+ * Count how many headings with the same text precede the given one, to tell duplicates apart
+ */
+export function getHeadingOccurrence(headings: HeadingCache[], heading: HeadingCache): number {
+	let occurrence = 0;
+	for (const cursor of headings) {
+		if (cursor === heading)
+			break;
+		if (cursor.heading === heading.heading)
+			occurrence++;
+	}
+	return occurrence;
+}
+
+/**
+ * Map a rendered block in reading mode to a line (0-based) using the heading it belongs to
+ */
+export function getBlockLine(pane: Element, block: Element, headings: HeadingCache[]): number | null {
+	let cursor: Element | null = block;
+	while (cursor !== null && !isHeadingBlock(cursor))
+		cursor = cursor.previousElementSibling;
+	if (cursor === null)
+		return null;
+
+	const name = getHeadingName(cursor);
+	const headingBlocks = Array.from(pane.children).filter(element => isHeadingBlock(element));
+	const occurrence = headingBlocks.slice(0, headingBlocks.indexOf(cursor)).filter(element => getHeadingName(element) === name).length;
+	const heading = headings.filter(heading => heading.heading === name)[occurrence];
+	if (!heading)
+		return null;
+
+	// a block below the heading is considered part of its body
+	return heading.position.start.line + (cursor === block ? 0 : 1);
+}
+
+/**
+ * Get the texts of a heading and of its ancestors, from the top level down
+ */
+export function getHeadingPath(headings: HeadingCache[], heading: HeadingCache): string[] {
+	const path = [heading.heading];
+	let level = heading.level;
+	for (let i = headings.indexOf(heading) - 1; i >= 0 && level > 1; i--) {
+		if (headings[i].level < level) {
+			path.unshift(headings[i].heading);
+			level = headings[i].level;
+		}
+	}
+	return path;
+}
+
+/**
+ * Find the heading matching a heading path, see getHeadingPath
+ */
+export function findHeadingByPath(headings: HeadingCache[], path: string[]): HeadingCache | null {
+	const last = path[path.length - 1];
+	return headings.find(heading => heading.heading === last && getHeadingPath(headings, heading).join('\n') === path.join('\n')) ?? null;
+}
+
+/**
+ * Find a heading by its text, or by the texts of its ancestors and itself
+ */
+export function findHeading(headings: HeadingCache[], path: string[]): HeadingCache | null {
+	if (path.length === 1)
+		return headings.find(heading => heading.heading === path[0]) ?? null;
+	return findHeadingByPath(headings, path);
+}
@@ -0,0 +1,79 @@
+import { MarkdownView, TFile, Workspace, WorkspaceLeaf } from 'obsidian';
+import { EditorView } from '@codemirror/view';
+
+// A markdown leaf, with the elements holding its focus in both modes
+export interface Pane {
+	leaf: WorkspaceLeaf;
+	view: MarkdownView;
+	mode: string;
+	head: Element;
+	editorView: EditorView | null;
+}
+
+// Focus is tracked per leaf: by FocusManager for the reading mode element,
+// and by the CM6 state of the editor view for edit mode
+export class PaneRegistry {
+	private workspace: Workspace;
+	private modes: WeakMap<WorkspaceLeaf, string> = new WeakMap();
+
+	constructor(workspace: Workspace) {
+		this.workspace = workspace;
+	}
+
+	/**
+	 * Get the pane of a markdown view
+	 */
+	get(view: MarkdownView): Pane {
+		return {
+			leaf: view.leaf,
+			view,
+			mode: view.getMode(),
+			head: view.contentEl.querySelector('.markdown-preview-section') as Element,
+			// @ts-ignore - accessing internal CM6 editor
+			editorView: (view.editor?.cm as EditorView) || null
+		};
+	}
+
+	/**
+	 * Record the current mode of a pane, returning the one it had before
+	 */
+	updateMode(pane: Pane): string | undefined {
+		const previousMode = this.modes.get(pane.leaf);
+		this.modes.set(pane.leaf, pane.mode);
+		return previousMode;
+	}
+
+	/**
+	 * Get the pane of the active markdown view
+	 */
+	getActive(): Pane | null {
+		const view = this.workspace.getActiveViewOfType(MarkdownView);
+		return view ? this.get(view) : null;
+	}
+
+	/**
+	 * Get the panes of every markdown leaf, including the ones in popout windows
+	 */
+	getAll(): Pane[] {
+		const panes: Pane[] = [];
+		this.workspace.iterateAllLeaves(leaf => {
+			if (leaf.view instanceof MarkdownView)
+				panes.push(this.get(leaf.view));
+		});
+		return panes;
+	}
+
+	/**
+	 * Find the pane holding a reading mode element or an editor view
+	 */
+	find(target: Element | EditorView): Pane | null {
+		return this.getAll().find(pane => pane.head === target || pane.editorView === target) ?? null;
+	}
+
+	/**
+	 * Get the panes showing a file
+	 */
+	getAllForFile(file: TFile): Pane[] {
+		return this.getAll().filter(pane => pane.view.file === file);
+	}
+}
@@ -0,0 +1,70 @@
+import { CachedMetadata } from 'obsidian';
+import { Text } from '@codemirror/state';
+import { EditModeFocusInfo, EditModeFocusManager } from 'utils/editModeFocusManager';
+import { findHeadingByPath, getHeadingPath } from 'utils/navigation';
+
+// Focus remembered for a note between sessions
+export interface SavedFocus {
+	type: EditModeFocusInfo['type'];
+	headingPath?: string[]; // For headings: texts of the heading and its ancestors
+	fromLine: number; // Line anchors, used when the heading cannot be found
+	toLine: number;
+	from?: number; // For sentences: character offsets from the start of fromLine
+	to?: number;
+}
+
+/**
+ * Describe a focus so that it can be found again once the note changed
+ */
+export function toSavedFocus(focusInfo: EditModeFocusInfo, metadata: CachedMetadata | null, doc: Text | null): SavedFocus {
+	const savedFocus: SavedFocus = {
+		type: focusInfo.type,
+		fromLine: focusInfo.fromLine,
+		toLine: focusInfo.toLine
+	};
+
+	if (doc && focusInfo.from !== undefined && focusInfo.to !== undefined) {
+		const lineStart = doc.line(focusInfo.fromLine).from;
+		savedFocus.from = focusInfo.from - lineStart;
+		savedFocus.to = focusInfo.to - lineStart;
+	}
+
+	const headings = metadata?.headings || [];
+	const heading = headings.find(heading => heading.position.start.line === focusInfo.fromLine - 1);
+	if (focusInfo.type === 'heading' && heading)
+		savedFocus.headingPath = getHeadingPath(headings, heading);
+
+	return savedFocus;
+}
+
+/**
+ * Resolve a saved focus against the current content of the note
+ */
+export function fromSavedFocus(savedFocus: SavedFocus, metadata: CachedMetadata | null, doc: Text, manager: EditModeFocusManager): EditModeFocusInfo | null {
+	manager.setMetadata(metadata);
+
+	if (savedFocus.headingPath) {
+		const heading = findHeadingByPath(metadata?.headings || [], savedFocus.headingPath);
+		if (heading)
+			return manager.getHeadingFocusInfo(heading.position.start.line + 1, heading.level, doc);
+	}
+
+	if (savedFocus.fromLine > doc.lines)
+		return null;
+
+	const lineStart = doc.line(savedFocus.fromLine).from;
+	const focusInfo: EditModeFocusInfo = {
+		fromLine: savedFocus.fromLine,
+		toLine: Math.min(savedFocus.toLine, doc.lines),
+		type: savedFocus.type,
+		anchor: lineStart
+	};
+	// Sentences are found again from their start, not from the start of their line
+	if (savedFocus.from !== undefined && savedFocus.to !== undefined) {
+		focusInfo.from = Math.min(lineStart + savedFocus.from, doc.length);
+		focusInfo.to = Math.min(lineStart + savedFocus.to, doc.length);
+		focusInfo.anchor = focusInfo.from;
+	}
+	// Boundaries may have moved since the focus was saved
+	return manager.refreshFocusInfo(focusInfo, doc) ?? focusInfo;
+}
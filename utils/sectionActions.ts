@@ -0,0 +1,80 @@
+import { Component, HeadingCache, MarkdownRenderer, Vault, normalizePath } from 'obsidian';
+import { Text } from '@codemirror/state';
+import { EditModeFocusInfo } from 'utils/editModeFocusManager';
+
+/**
+ * Get the document range of a focus, the characters of a sentence or the whole lines otherwise
+ */
+export function getFocusedRange(focusInfo: EditModeFocusInfo, doc: Text): { from: number, to: number } {
+	return {
+		from: focusInfo.from ?? doc.line(focusInfo.fromLine).from,
+		to: focusInfo.to ?? doc.line(focusInfo.toLine).to
+	};
+}
+
+/**
+ * Get the range to delete when removing a focus, together with the line break of whole lines
+ */
+export function getRemovedRange(focusInfo: EditModeFocusInfo, doc: Text): { from: number, to: number } {
+	const range = getFocusedRange(focusInfo, doc);
+	if (focusInfo.from !== undefined)
+		return range;
+	if (focusInfo.toLine < doc.lines)
+		return { from: range.from, to: doc.line(focusInfo.toLine + 1).from };
+	if (focusInfo.fromLine > 1)
+		return { from: doc.line(focusInfo.fromLine - 1).to, to: range.to };
+	return range;
+}
+
+/**
+ * Get the last line (1-based) of a heading's section, including its sub-headings
+ */
+export function getSectionEndLine(headings: HeadingCache[], heading: HeadingCache, doc: Text): number {
+	const next = headings.slice(headings.indexOf(heading) + 1).find(next => next.level <= heading.level);
+	// The 0-based line of the next heading is the 1-based line before it
+	return next ? next.position.start.line : doc.lines;
+}
+
+/**
+ * Render Markdown to HTML the way the reading view does. Embeds and other render children
+ * belong to a component of their own, unloaded once the HTML is taken.
+ */
+export async function renderSectionHtml(markdown: string, sourcePath: string): Promise<string> {
+	const el = document.createElement('div');
+	const component = new Component();
+	component.load();
+	try {
+		await MarkdownRenderer.renderMarkdown(markdown, el, sourcePath, component);
+		return el.innerHTML;
+	}
+	finally {
+		component.unload();
+	}
+}
+
+/**
+ * Wrap rendered HTML into a standalone document
+ */
+export function toHtmlDocument(title: string, body: string): string {
+	const escapedTitle = title.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+	return `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>${escapedTitle}</title>\n</head>\n<body>\n${body}\n</body>\n</html>\n`;
+}
+
+/**
+ * Turn the text of a section into a file name, dropping the characters links and file systems reject
+ */
+export function toFileName(text: string): string {
+	const name = text.replace(/^#+\s*/, '').replace(/[\\/:*?"<>|#^[\]]/g, '').trim().slice(0, 100);
+	return name || 'Untitled';
+}
+
+/**
+ * Find a path in a folder that no file uses yet, numbering the name if needed
+ */
+export function getAvailablePath(vault: Vault, folder: string, name: string, extension: string): string {
+	const prefix = folder && folder !== '/' ? `${folder}/` : '';
+	let path = normalizePath(`${prefix}${name}.${extension}`);
+	for (let i = 1; vault.getAbstractFileByPath(path); i++)
+		path = normalizePath(`${prefix}${name} ${i}.${extension}`);
+	return path;
+}
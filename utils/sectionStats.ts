@@ -0,0 +1,23 @@
+import { Text } from '@codemirror/state';
+import { EditModeFocusInfo } from 'utils/editModeFocusManager';
+import { getFocusedRange } from 'utils/sectionActions';
+
+const WORDS_PER_MINUTE = 200;
+
+export interface SectionStats {
+	words: number;
+	minutes: number; // Estimated reading time, at least one minute
+}
+
+/**
+ * Count the words of a focused range, leaving the Markdown syntax out
+ */
+export function getSectionStats(focusInfo: EditModeFocusInfo, doc: Text): SectionStats {
+	const { from, to } = getFocusedRange(focusInfo, doc);
+	const text = doc.sliceString(from, to).replace(/[#>*_`~=[\]()|-]+/g, ' ');
+	const words = (text.match(/\S+/g) || []).length;
+	return {
+		words,
+		minutes: Math.max(1, Math.ceil(words / WORDS_PER_MINUTE))
+	};
+}
@@ -0,0 +1,116 @@
+// Movement in pixels below which a touch still counts as a tap or a press
+const TAP_SLOP = 10;
+const LONG_PRESS_MS = 500;
+const TAP_MS = 300;
+const SWIPE_DISTANCE = 60;
+const SWIPE_MS = 600;
+
+export type SwipeDirection = 'left' | 'right';
+
+export interface TouchGestureHandlers {
+	onLongPress: (evt: PointerEvent) => void;
+	onTwoFingerTap: (evt: PointerEvent) => void;
+	onSwipe: (direction: SwipeDirection, evt: PointerEvent) => void;
+}
+
+interface TouchStart {
+	x: number;
+	y: number;
+	time: number;
+}
+
+// Recognizes gestures from the touch pointers of a document, mouse and pen pointers are ignored
+export class TouchGestures {
+	private handlers: TouchGestureHandlers;
+	private pointers: Map<number, TouchStart> = new Map();
+	private maxPointers = 0;
+	private moved = false;
+	private handled = false;
+	private longPressTimer: number | null = null;
+
+	constructor(handlers: TouchGestureHandlers) {
+		this.handlers = handlers;
+	}
+
+	down(evt: PointerEvent) {
+		if (evt.pointerType !== 'touch')
+			return;
+
+		// A new gesture starts with its first finger
+		if (this.pointers.size === 0) {
+			this.maxPointers = 0;
+			this.moved = false;
+			this.handled = false;
+		}
+		this.pointers.set(evt.pointerId, { x: evt.clientX, y: evt.clientY, time: evt.timeStamp });
+		this.maxPointers = Math.max(this.maxPointers, this.pointers.size);
+
+		this.cancelLongPress();
+		if (this.pointers.size === 1) {
+			this.longPressTimer = window.setTimeout(() => {
+				this.longPressTimer = null;
+				if (!this.moved && this.pointers.size === 1) {
+					this.handled = true;
+					this.handlers.onLongPress(evt);
+				}
+			}, LONG_PRESS_MS);
+		}
+	}
+
+	move(evt: PointerEvent) {
+		const start = this.pointers.get(evt.pointerId);
+		if (!start || this.moved)
+			return;
+
+		if (Math.hypot(evt.clientX - start.x, evt.clientY - start.y) > TAP_SLOP) {
+			this.moved = true;
+			this.cancelLongPress();
+		}
+	}
+
+	/**
+	 * Track a pointer being released, returning true when it ended a gesture
+	 * or a scroll rather than a tap, so that it must not be handled as a click
+	 */
+	up(evt: PointerEvent): boolean {
+		const start = this.pointers.get(evt.pointerId);
+		if (!start)
+			return false;
+
+		this.pointers.delete(evt.pointerId);
+		this.cancelLongPress();
+		if (this.pointers.size > 0 || this.handled)
+			return true;
+
+		const dx = evt.clientX - start.x;
+		const dy = evt.clientY - start.y;
+		const duration = evt.timeStamp - start.time;
+
+		if (this.maxPointers === 2 && !this.moved && duration < TAP_MS) {
+			this.handlers.onTwoFingerTap(evt);
+			return true;
+		}
+
+		if (this.maxPointers === 1 && Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > 2 * Math.abs(dy) && duration < SWIPE_MS) {
+			this.handlers.onSwipe(dx < 0 ? 'left' : 'right', evt);
+			return true;
+		}
+
+		return this.moved || this.maxPointers > 1;
+	}
+
+	cancel(evt: PointerEvent) {
+		// The browser took over the touch, e.g. to scroll
+		if (this.pointers.delete(evt.pointerId)) {
+			this.moved = true;
+			this.cancelLongPress();
+		}
+	}
+
+	private cancelLongPress() {
+		if (this.longPressTimer !== null) {
+			clearTimeout(this.longPressTimer);
+			this.longPressTimer = null;
+		}
+	}
+}
@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+import path from 'path';
+
+export default defineConfig({
+	resolve: {
+		// Sources import from the repository root, as set by baseUrl in tsconfig.json
+		alias: {
+			utils: path.resolve('utils')
+		}
+	},
+	test: {
+		environment: 'jsdom',
+		include: ['tests/**/*.test.ts']
+	}
+});